@@ -0,0 +1,224 @@
+import { mkdir, rm, stat, writeFile } from 'node:fs/promises'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import path from 'node:path'
+import type { Connect, Plugin } from 'vite'
+
+/**
+ * 실제 백엔드 대신 쓰는 로컬 업로드 서버(Vite dev/preview 미들웨어).
+ * src/utils/uploader.ts 와 같은 계약을 구현한다:
+ *   PUT {base}api/takes/{takeId}/audio     -> {dir}/{takeId}/audio.wav (FLAC이면 audio.flac)
+ *   PUT {base}api/takes/{takeId}/metadata  -> {dir}/{takeId}/metadata.json
+ *   GET {base}api/takes/{takeId}           -> { takeId, audio, metadata }
+ * 같은 take를 다시 보내면 덮어쓰고 200, 처음이면 201을 돌려준다.
+ * MOCK_UPLOAD_FAIL_RATE=0.3 처럼 주면 그 비율만큼 503을 돌려줘서 재시도 흐름을 시험할 수 있다.
+ */
+
+type MockUploadServerOptions = {
+  dir?: string
+  failRate?: number
+}
+
+const TAKE_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+
+const PARTS = ['audio', 'metadata'] as const
+const METADATA_FILE = 'metadata.json'
+
+type PartName = (typeof PARTS)[number]
+
+type AudioFormat = {
+  extension: string
+  // 앞의 것이 표준 이름이고 나머지는 브라우저/도구가 쓰기도 하는 별칭.
+  contentTypes: string[]
+  matches: (body: Buffer) => boolean
+}
+
+// 클라이언트 출력 형식(outputSpec.container)과 같은 목록. 저장 확장자는 파일 앞부분(magic number)으로 정한다.
+const AUDIO_FORMATS: AudioFormat[] = [
+  {
+    extension: 'wav',
+    contentTypes: ['audio/wav', 'audio/wave', 'audio/x-wav'],
+    matches: (body) =>
+      body.length >= 44 &&
+      body.toString('ascii', 0, 4) === 'RIFF' &&
+      body.toString('ascii', 8, 12) === 'WAVE',
+  },
+  {
+    extension: 'flac',
+    contentTypes: ['audio/flac', 'audio/x-flac'],
+    // "fLaC" + STREAMINFO 블록 헤더(4) + STREAMINFO(34)
+    matches: (body) => body.length >= 42 && body.toString('ascii', 0, 4) === 'fLaC',
+  },
+]
+
+const AUDIO_FILES = AUDIO_FORMATS.map((format) => `audio.${format.extension}`)
+
+const log = (...args: unknown[]) => {
+  console.log('[mockUploadServer]', ...args)
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json')
+  res.end(JSON.stringify(body))
+}
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('PayloadTooLarge'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+
+const exists = async (filePath: string) => {
+  try {
+    await stat(filePath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const existsAny = async (filePaths: string[]) => {
+  for (const filePath of filePaths) {
+    if (await exists(filePath)) {
+      return true
+    }
+  }
+  return false
+}
+
+// Content-Type이 있으면 파일 내용과 같은 형식이어야 한다. 파라미터(;codecs=...)는 무시한다.
+const detectAudioFormat = (
+  body: Buffer,
+  contentType: string | undefined,
+): { format: AudioFormat } | { error: string } => {
+  const format = AUDIO_FORMATS.find((candidate) => candidate.matches(body))
+  if (!format) {
+    return { error: 'audio must be a RIFF/WAVE or FLAC file' }
+  }
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase()
+  if (
+    mimeType &&
+    mimeType !== 'application/octet-stream' &&
+    !format.contentTypes.includes(mimeType)
+  ) {
+    return { error: `content type ${mimeType} does not match ${format.contentTypes[0]} data` }
+  }
+  return { format }
+}
+
+const validateMetadata = (takeId: string, body: Buffer): string | null => {
+  try {
+    const metadata = JSON.parse(body.toString('utf8')) as { takeId?: unknown }
+    return metadata.takeId === takeId ? null : 'metadata.takeId does not match the URL'
+  } catch {
+    return 'metadata must be JSON'
+  }
+}
+
+const createHandler = (dir: string, failRate: number): Connect.NextHandleFunction => {
+  return async (req, res, next) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const [takeId, part, ...rest] = url.pathname.split('/').filter(Boolean)
+
+    if (!takeId || rest.length > 0) {
+      next()
+      return
+    }
+    if (!TAKE_ID_PATTERN.test(takeId)) {
+      sendJson(res, 400, { error: 'invalid take id' })
+      return
+    }
+
+    const takeDir = path.join(dir, takeId)
+
+    try {
+      if (req.method === 'GET' && !part) {
+        const audio = await existsAny(AUDIO_FILES.map((file) => path.join(takeDir, file)))
+        const metadata = await exists(path.join(takeDir, METADATA_FILE))
+        if (!audio && !metadata) {
+          sendJson(res, 404, { error: 'not found' })
+          return
+        }
+        sendJson(res, 200, { takeId, audio, metadata })
+        return
+      }
+
+      if (req.method === 'PUT' && (PARTS as readonly string[]).includes(part)) {
+        if (Math.random() < failRate) {
+          log('inject_failure', { takeId, part })
+          sendJson(res, 503, { error: 'injected failure' })
+          return
+        }
+
+        const partName = part as PartName
+        const body = await readBody(req)
+        let fileName = METADATA_FILE
+        if (partName === 'audio') {
+          const detected = detectAudioFormat(body, req.headers['content-type'])
+          if ('error' in detected) {
+            sendJson(res, 422, { error: detected.error })
+            return
+          }
+          fileName = `audio.${detected.format.extension}`
+        } else {
+          const invalidReason = validateMetadata(takeId, body)
+          if (invalidReason) {
+            sendJson(res, 422, { error: invalidReason })
+            return
+          }
+        }
+
+        const filePath = path.join(takeDir, fileName)
+        const existed =
+          partName === 'audio'
+            ? await existsAny(AUDIO_FILES.map((file) => path.join(takeDir, file)))
+            : await exists(filePath)
+        await mkdir(takeDir, { recursive: true })
+        // 같은 take를 다른 형식으로 다시 보냈으면 이전 형식 파일은 지운다.
+        if (partName === 'audio') {
+          for (const file of AUDIO_FILES.filter((candidate) => candidate !== fileName)) {
+            await rm(path.join(takeDir, file), { force: true })
+          }
+        }
+        await writeFile(filePath, body)
+        log('stored', { takeId, part: partName, file: fileName, bytes: body.length, existed })
+        sendJson(res, existed ? 200 : 201, { takeId, part: partName })
+        return
+      }
+
+      sendJson(res, 405, { error: 'method not allowed' })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'unknown'
+      log('error', { takeId, message })
+      sendJson(res, message === 'PayloadTooLarge' ? 413 : 500, { error: message })
+    }
+  }
+}
+
+export const mockUploadServer = (options?: MockUploadServerOptions): Plugin => {
+  const dir = path.resolve(options?.dir ?? 'mock-uploads')
+  const failRate = options?.failRate ?? Number(process.env.MOCK_UPLOAD_FAIL_RATE ?? 0)
+  const handler = createHandler(dir, failRate)
+
+  return {
+    name: 'kws-mock-upload-server',
+    configureServer(server) {
+      server.middlewares.use(path.posix.join(server.config.base, 'api/takes'), handler)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(path.posix.join(server.config.base, 'api/takes'), handler)
+    },
+  }
+}
@@ -0,0 +1,419 @@
+import { copyFile, mkdir, readdir, readFile, rename, rm, symlink, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  analyzePcmForSpeechGate,
+  NoiseFloorSource,
+  type GateDecision,
+  type GateResult,
+} from '../src/utils/gate'
+import { resolveGateConfig, type GateConfig } from '../src/utils/gateConfig'
+import { MISSION_KINDS, MissionKind, SILENCE_LABEL, UNKNOWN_LABEL } from '../src/utils/mission'
+import { decodeWav } from '../src/utils/wavDecoder'
+
+/**
+ * 이미 모은 WAV 데이터셋을 지금 게이트 기준으로 다시 판정하는 CLI.
+ *   npm run regate -- <datasetDir> [--profile strict|lenient|<json>|<file.json>]
+ *                     [--out regate-report] [--sort move|link] [--mission keyword|filler|background]
+ *
+ * - <datasetDir> 아래 .wav를 모두 찾아 analyzePcmForSpeechGate로 판정한다.
+ * - 내보내기 zip을 푼 폴더면 manifest.jsonl에서 미션 종류, 이전 판정, 보정 소음 바닥을 가져온다.
+ *   없으면 폴더 이름(_silence_, _unknown_)으로 미션 종류를 짐작한다.
+ * - 클립 길이는 파일 길이를 그대로 쓴다. 화자별 지문이 없어서 중복 검사는 하지 않는다.
+ * - <out>/regate-report.csv, regate-report.json에 파일별 결과와 판정/사유 개수를 쓴다.
+ * - --sort를 주면 <out>/PASS|AMBIG|REJECT/<원래 상대 경로>로 옮기거나(move) 심볼릭 링크를 건다(link).
+ */
+
+const SortMode = {
+  Move: 'move',
+  Link: 'link',
+} as const
+
+type SortMode = (typeof SortMode)[keyof typeof SortMode]
+
+const MANIFEST_JSONL_PATH = 'manifest.jsonl'
+const REPORT_CSV_NAME = 'regate-report.csv'
+const REPORT_JSON_NAME = 'regate-report.json'
+const DECISIONS: GateDecision[] = ['PASS', 'AMBIG', 'REJECT']
+
+// 내보내기 manifest.jsonl 한 줄에서 여기서 쓰는 값만.
+type ManifestEntry = {
+  path: string
+  missionKind?: MissionKind
+  gate?: {
+    decision: GateDecision
+    reason: string
+    profileId: string
+    debugMetrics?: { noiseFloorRms?: number; noiseFloorSource?: string }
+  }
+}
+
+// 발화 마스크는 리포트에 넣기엔 커서 뺀다.
+type RegateResult = Pick<GateResult, 'profileId' | 'decision' | 'reason' | 'debugMetrics'>
+
+type RegateRow = {
+  path: string
+  missionKind: MissionKind
+  sampleRate: number | null
+  durationMs: number | null
+  previousDecision: GateDecision | null
+  previousReason: string | null
+  previousProfileId: string | null
+  result: RegateResult | null
+  changed: boolean
+  sortedTo: string | null
+  errorName: string | null
+}
+
+type RegateReport = {
+  generatedAt: string
+  datasetDir: string
+  gateConfig: GateConfig
+  totals: { files: number; judged: number; errors: number; changed: number }
+  decisions: Record<GateDecision, number>
+  reasons: Record<string, number>
+  // "PASS->AMBIG" 처럼 이전 판정에서 바뀐 개수. manifest가 없으면 비어 있다.
+  transitions: Record<string, number>
+  files: RegateRow[]
+}
+
+const USAGE = `usage: npm run regate -- <datasetDir> [options]
+  --profile <id|json|file>  gate profile id (strict/default/lenient), inline JSON, or a JSON file
+  --out <dir>               report directory (default: regate-report)
+  --sort <move|link>        move or symlink files into <out>/PASS|AMBIG|REJECT
+  --mission <kind>          force mission kind for every file (keyword/filler/background)`
+
+const log = (...args: unknown[]) => {
+  console.log('[regate]', ...args)
+}
+
+const toErrorName = (error: unknown) =>
+  error instanceof DOMException || error instanceof Error ? error.name : 'UnknownError'
+
+const toPosixPath = (filePath: string) => filePath.split(path.sep).join('/')
+
+const readGateConfig = async (value: string | undefined): Promise<GateConfig> => {
+  if (!value) {
+    return resolveGateConfig(undefined)
+  }
+  if (value.trim().startsWith('{')) {
+    return resolveGateConfig(JSON.parse(value))
+  }
+  if (value.endsWith('.json')) {
+    const parsed = JSON.parse(await readFile(value, 'utf8')) as unknown
+    // keywords.json 같은 캠페인 설정을 그대로 넘겨도 gate 항목을 쓴다.
+    const isCampaign = Boolean(parsed) && typeof parsed === 'object' && 'gate' in (parsed as object)
+    const spec = isCampaign ? (parsed as { gate: unknown }).gate : parsed
+    return resolveGateConfig(spec)
+  }
+  return resolveGateConfig(value)
+}
+
+const findWavFiles = async (dir: string, skipDir: string): Promise<string[]> => {
+  const found: string[] = []
+  const entries = await readdir(dir, { withFileTypes: true })
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      if (path.resolve(entryPath) !== skipDir) {
+        found.push(...(await findWavFiles(entryPath, skipDir)))
+      }
+    } else if (entry.isFile() && entry.name.toLowerCase().endsWith('.wav')) {
+      found.push(entryPath)
+    }
+  }
+  return found.sort()
+}
+
+const readManifest = async (datasetDir: string): Promise<Map<string, ManifestEntry>> => {
+  const entries = new Map<string, ManifestEntry>()
+  let text: string
+  try {
+    text = await readFile(path.join(datasetDir, MANIFEST_JSONL_PATH), 'utf8')
+  } catch {
+    return entries
+  }
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue
+    }
+    try {
+      const entry = JSON.parse(line) as ManifestEntry
+      if (typeof entry.path === 'string') {
+        entries.set(entry.path, entry)
+      }
+    } catch {
+      log('manifest:invalid_line', line.slice(0, 80))
+    }
+  }
+  return entries
+}
+
+// 내보내기 배치(<label>/<file>.wav)의 예약 라벨 폴더로 미션 종류를 짐작한다.
+const guessMissionKind = (relativePath: string): MissionKind => {
+  const folders = relativePath.split('/').slice(0, -1)
+  if (folders.includes(SILENCE_LABEL)) {
+    return MissionKind.Background
+  }
+  if (folders.includes(UNKNOWN_LABEL)) {
+    return MissionKind.Filler
+  }
+  return MissionKind.Keyword
+}
+
+const moveFile = async (source: string, target: string) => {
+  try {
+    await rename(source, target)
+  } catch (error) {
+    // 다른 디스크로는 rename이 안 된다.
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error
+    }
+    await copyFile(source, target)
+    await rm(source)
+  }
+}
+
+const sortFile = async (
+  source: string,
+  outDir: string,
+  relativePath: string,
+  decision: GateDecision,
+  mode: SortMode,
+): Promise<string> => {
+  const target = path.join(outDir, decision, relativePath)
+  await mkdir(path.dirname(target), { recursive: true })
+  if (mode === SortMode.Move) {
+    await moveFile(source, target)
+  } else {
+    await symlink(path.resolve(source), target)
+  }
+  return target
+}
+
+const countBy = (values: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {}
+  for (const value of values) {
+    counts[value] = (counts[value] ?? 0) + 1
+  }
+  return counts
+}
+
+const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const buildReportCsv = (rows: RegateRow[]): string => {
+  // debugMetrics는 스칼라 값만 열로 펼친다(내보내기 manifest.csv와 같은 규칙).
+  const metricColumns: string[] = []
+  for (const row of rows) {
+    for (const [key, value] of Object.entries(row.result?.debugMetrics ?? {})) {
+      if ((value === null || typeof value !== 'object') && !metricColumns.includes(key)) {
+        metricColumns.push(key)
+      }
+    }
+  }
+  const header = [
+    'path',
+    'mission_kind',
+    'previous_decision',
+    'previous_reason',
+    'previous_profile',
+    'decision',
+    'reason',
+    'gate_profile',
+    'changed',
+    ...metricColumns,
+    'sample_rate',
+    'duration_ms',
+    'sorted_to',
+    'error',
+  ]
+  const lines = rows.map((row) => {
+    const metrics = (row.result?.debugMetrics ?? {}) as Record<string, unknown>
+    return [
+      row.path,
+      row.missionKind,
+      row.previousDecision,
+      row.previousReason,
+      row.previousProfileId,
+      row.result?.decision,
+      row.result?.reason,
+      row.result?.profileId,
+      row.changed,
+      ...metricColumns.map((column) => metrics[column]),
+      row.sampleRate,
+      row.durationMs,
+      row.sortedTo,
+      row.errorName,
+    ]
+      .map(escapeCsvCell)
+      .join(',')
+  })
+  return `${[header.join(','), ...lines].join('\n')}\n`
+}
+
+const regateFile = async (
+  filePath: string,
+  relativePath: string,
+  config: GateConfig,
+  manifestEntry: ManifestEntry | undefined,
+  forcedMissionKind: MissionKind | null,
+): Promise<RegateRow> => {
+  const missionKind =
+    forcedMissionKind ?? manifestEntry?.missionKind ?? guessMissionKind(relativePath)
+  const previous = manifestEntry?.gate ?? null
+  const row: RegateRow = {
+    path: relativePath,
+    missionKind,
+    sampleRate: null,
+    durationMs: null,
+    previousDecision: previous?.decision ?? null,
+    previousReason: previous?.reason ?? null,
+    previousProfileId: previous?.profileId ?? null,
+    result: null,
+    changed: false,
+    sortedTo: null,
+    errorName: null,
+  }
+
+  try {
+    const decoded = decodeWav(await readFile(filePath))
+    row.sampleRate = decoded.sampleRate
+    row.durationMs = decoded.durationMs
+    // 녹음 때 보정값으로 판정했으면 같은 소음 바닥으로 다시 본다.
+    const metrics = previous?.debugMetrics
+    const calibration =
+      metrics?.noiseFloorSource === NoiseFloorSource.Calibration &&
+      typeof metrics.noiseFloorRms === 'number'
+        ? { noiseFloorRms: metrics.noiseFloorRms, measuredAt: 0, durationMs: 0 }
+        : null
+    const { profileId, decision, reason, debugMetrics } = analyzePcmForSpeechGate(
+      decoded.pcm,
+      decoded.sampleRate,
+      config,
+      { calibration, missionKind, clipDurationMs: decoded.durationMs },
+    )
+    row.result = { profileId, decision, reason, debugMetrics }
+    row.changed = row.previousDecision !== null && row.previousDecision !== row.result.decision
+  } catch (error) {
+    row.errorName = toErrorName(error)
+  }
+  return row
+}
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      profile: { type: 'string' },
+      out: { type: 'string', default: 'regate-report' },
+      sort: { type: 'string' },
+      mission: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE)
+    process.exitCode = values.help ? 0 : 1
+    return
+  }
+  const sortMode = values.sort ?? null
+  if (sortMode !== null && sortMode !== SortMode.Move && sortMode !== SortMode.Link) {
+    console.error(`--sort must be ${SortMode.Move} or ${SortMode.Link}`)
+    process.exitCode = 1
+    return
+  }
+  const forcedMissionKind = values.mission ?? null
+  if (forcedMissionKind !== null && !MISSION_KINDS.includes(forcedMissionKind)) {
+    console.error(`--mission must be one of ${MISSION_KINDS.join(', ')}`)
+    process.exitCode = 1
+    return
+  }
+
+  const datasetDir = path.resolve(positionals[0])
+  const outDir = path.resolve(values.out)
+  const config = await readGateConfig(values.profile)
+  const manifest = await readManifest(datasetDir)
+  const files = await findWavFiles(datasetDir, outDir)
+  log('start', {
+    datasetDir,
+    profileId: config.profileId,
+    files: files.length,
+    manifest: manifest.size,
+  })
+
+  const rows: RegateRow[] = []
+  for (const filePath of files) {
+    const relativePath = toPosixPath(path.relative(datasetDir, filePath))
+    const row = await regateFile(
+      filePath,
+      relativePath,
+      config,
+      manifest.get(relativePath),
+      forcedMissionKind as MissionKind | null,
+    )
+    if (sortMode && row.result) {
+      try {
+        const target = await sortFile(filePath, outDir, relativePath, row.result.decision, sortMode)
+        row.sortedTo = toPosixPath(path.relative(outDir, target))
+      } catch (error) {
+        row.errorName = toErrorName(error)
+      }
+    }
+    if (row.errorName) {
+      log('file:error', relativePath, row.errorName)
+    }
+    rows.push(row)
+  }
+
+  const judged = rows.flatMap((row) => (row.result ? [row.result] : []))
+  const decisions = Object.fromEntries(DECISIONS.map((decision) => [decision, 0])) as Record<
+    GateDecision,
+    number
+  >
+  for (const result of judged) {
+    decisions[result.decision] += 1
+  }
+  const report: RegateReport = {
+    generatedAt: new Date().toISOString(),
+    datasetDir,
+    gateConfig: config,
+    totals: {
+      files: rows.length,
+      judged: judged.length,
+      errors: rows.filter((row) => row.errorName).length,
+      changed: rows.filter((row) => row.changed).length,
+    },
+    decisions,
+    reasons: countBy(judged.map((result) => result.reason)),
+    transitions: countBy(
+      rows
+        .filter((row) => row.changed && row.result)
+        .map((row) => `${row.previousDecision}->${row.result?.decision}`),
+    ),
+    files: rows,
+  }
+
+  await mkdir(outDir, { recursive: true })
+  await writeFile(path.join(outDir, REPORT_CSV_NAME), buildReportCsv(rows))
+  await writeFile(path.join(outDir, REPORT_JSON_NAME), `${JSON.stringify(report, null, 2)}\n`)
+
+  log('done', report.totals)
+  log('decisions', report.decisions)
+  log('reasons', report.reasons)
+  if (Object.keys(report.transitions).length > 0) {
+    log('transitions', report.transitions)
+  }
+  log('report', path.join(outDir, REPORT_CSV_NAME))
+}
+
+main().catch((error: unknown) => {
+  console.error('[regate]', toErrorName(error), error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
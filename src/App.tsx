@@ -1,5 +1,49 @@
-import { useMemo, useState } from 'react'
-import { RecorderStatus, useRecorder } from './hooks/useRecorder'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { ClipVisualizer } from './components/ClipVisualizer'
+import { WindowEditor } from './components/WindowEditor'
+import { useAudioInputDevices } from './hooks/useAudioInputDevices'
+import { LevelWarning, useInputLevel } from './hooks/useInputLevel'
+import { CalibrationStatus, useNoiseCalibration } from './hooks/useNoiseCalibration'
+import { useKeywordSession, type KeywordSessionSnapshot } from './hooks/useKeywordSession'
+import {
+  CaptureBackend,
+  RecorderStatus,
+  useRecorder,
+  type RecordedTake,
+} from './hooks/useRecorder'
+import { useTakeStore } from './hooks/useTakeStore'
+import { useUploadQueue } from './hooks/useUploadQueue'
+import { useVoiceTrigger, VoiceTriggerState } from './hooks/useVoiceTrigger'
+import { AlignmentMode } from './utils/alignment'
+import {
+  DEFAULT_CAPTURE_PROFILE,
+  PROCESSING_LABELS,
+  resolveCaptureProfile,
+} from './utils/captureProfile'
+import { createDatasetZip } from './utils/datasetExport'
+import { loadPreferredInputDeviceId, savePreferredInputDeviceId } from './utils/deviceInfo'
+import { createDiagnosticBundle } from './utils/diagnostics'
+import { downloadBlob, shareOrDownloadBlob } from './utils/download'
+import { createLogger } from './utils/eventLog'
+import type { NoiseCalibration } from './utils/gate'
+import { DEFAULT_GATE_CONFIG, resolveGateConfig } from './utils/gateConfig'
+import { loadKeywordCatalog, type KeywordCatalog } from './utils/keywordCatalog'
+import { MissionKind } from './utils/mission'
+import {
+  DEFAULT_OUTPUT_SPEC,
+  describeOutputSpec,
+  getOutputFileExtension,
+  resolveOutputSpec,
+} from './utils/outputSpec'
+import { getSpeakerId } from './utils/participant'
+import {
+  createTakeId,
+  listReviews,
+  listTakes,
+  loadResumableSession,
+  saveSession,
+  UploadStatus,
+} from './utils/takeStore'
 
 type Feedback = {
   emoji: string
@@ -9,7 +53,285 @@ type Feedback = {
 
 const formatSeconds = (ms: number) => (ms / 1000).toFixed(1)
 
+const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+  [UploadStatus.Pending]: '대기',
+  [UploadStatus.Uploading]: '업로드 중',
+  [UploadStatus.Uploaded]: '완료',
+  [UploadStatus.Failed]: '실패',
+}
+const VISIBLE_UPLOAD_COUNT = 5
+
+// ?capture=audioWorklet 처럼 녹음 경로를 강제로 고를 수 있다(테스트/지원 대응용).
+const readCaptureBackendParam = (): CaptureBackend | 'auto' => {
+  const value = new URLSearchParams(window.location.search).get('capture')
+  return value === CaptureBackend.MediaRecorder || value === CaptureBackend.AudioWorklet
+    ? value
+    : 'auto'
+}
+
+// ?gate=lenient 처럼 게이트 프로필을 고른다. 캠페인 설정(keywords.json의 gate)보다 우선한다.
+const readGateProfileParam = () => new URLSearchParams(window.location.search).get('gate')
+
+// ?output=speechCommands 처럼 출력 형식 프리셋을 고른다. 캠페인 설정(keywords.json의 output)보다 우선한다.
+const readOutputPresetParam = () => new URLSearchParams(window.location.search).get('output')
+
+// ?processing=browser 처럼 음성 처리 프로필을 고른다. 캠페인 설정(keywords.json의 processing)보다 우선한다.
+const readCaptureProfileParam = () => new URLSearchParams(window.location.search).get('processing')
+
+const LEVEL_WARNING_MESSAGES: Record<LevelWarning, string> = {
+  [LevelWarning.TooQuiet]: '너무 작아요! 마이크에 조금 더 가까이 말해요.',
+  [LevelWarning.Clipping]: '소리가 깨져요! 조금만 작게, 마이크에서 살짝 떨어져요.',
+}
+const METER_FLOOR_DB = -60
+
+const MISSION_LABELS: Record<MissionKind, string> = {
+  [MissionKind.Keyword]: '오늘의 발화 미션',
+  [MissionKind.Filler]: '아무 단어 미션',
+  [MissionKind.Background]: '배경 소리 미션',
+}
+
+const MISSION_HINTS: Record<MissionKind, (seconds: string) => string> = {
+  [MissionKind.Keyword]: (seconds) => `정확히 ${seconds}초 안에 말하기`,
+  [MissionKind.Filler]: (seconds) => `키워드가 아니어도 괜찮아요. ${seconds}초 안에 또박또박 말하기`,
+  [MissionKind.Background]: (seconds) =>
+    `${seconds}초 동안 아무 말도 하지 않기 (주변 소리만 녹음해요)`,
+}
+
+// 핸즈프리에서 잡담/소음으로 연달아 실패하면 자동 녹음을 멈추고 사용자에게 넘긴다.
+const HANDS_FREE_MAX_MISSES = 3
+const HANDS_FREE_IDLE_TIMEOUT_MS = 20000
+
+const HandsFreePause = {
+  IdleTimeout: 'IdleTimeout',
+  TooManyMisses: 'TooManyMisses',
+} as const
+
+type HandsFreePause = (typeof HandsFreePause)[keyof typeof HandsFreePause]
+
+const HANDS_FREE_PAUSE_MESSAGES: Record<HandsFreePause, string> = {
+  [HandsFreePause.IdleTimeout]: '한동안 말소리가 없어서 잠시 멈췄어요.',
+  [HandsFreePause.TooManyMisses]: '주변 소리 때문에 연달아 실패해서 잠시 멈췄어요.',
+}
+
+// 선형 진폭을 dBFS로 바꿔 -60dB ~ 0dB 구간을 0~100%로 보여준다.
+const toMeterPercent = (amplitude: number) => {
+  if (amplitude <= 0) {
+    return 0
+  }
+  const db = 20 * Math.log10(amplitude)
+  return Math.min(100, Math.max(0, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100))
+}
+
+const toDbfs = (amplitude: number) => Math.round(20 * Math.log10(Math.max(amplitude, 1e-6)))
+
+const log = createLogger('App')
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`
+
 function App() {
+  const [speakerId] = useState(getSpeakerId)
+  const [captureBackendPreference] = useState(readCaptureBackendParam)
+  const [gateProfileParam] = useState(readGateProfileParam)
+  const [outputPresetParam] = useState(readOutputPresetParam)
+  const [captureProfileParam] = useState(readCaptureProfileParam)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportErrorName, setExportErrorName] = useState<string | null>(null)
+  const [uploadErrorName, setUploadErrorName] = useState<string | null>(null)
+  const [isSendingDiagnostics, setIsSendingDiagnostics] = useState(false)
+  const [diagnosticsErrorName, setDiagnosticsErrorName] = useState<string | null>(null)
+  const [catalog, setCatalog] = useState<KeywordCatalog | null>(null)
+  const [catalogErrorName, setCatalogErrorName] = useState<string | null>(null)
+  const [resumeFrom, setResumeFrom] = useState<KeywordSessionSnapshot | null>(null)
+  const [isHandsFree, setIsHandsFree] = useState(false)
+  const [handsFreeTimedOut, setHandsFreeTimedOut] = useState(false)
+  const [handsFreeMisses, setHandsFreeMisses] = useState(0)
+  const [noiseCalibration, setNoiseCalibration] = useState<NoiseCalibration | null>(null)
+  // null이면 브라우저 기본 장치.
+  const [inputDeviceId, setInputDeviceId] = useState(loadPreferredInputDeviceId)
+  const {
+    sessionId,
+    snapshot: sessionSnapshot,
+    isResumed,
+    currentKeyword,
+    progress: keywordProgress,
+    acceptedCount,
+    totalCount,
+    isComplete: isSessionComplete,
+    markAccepted,
+    restart: restartSession,
+  } = useKeywordSession(catalog, resumeFrom)
+  const { gateConfig, gateConfigErrorName } = useMemo(() => {
+    const campaignConfig = catalog?.gateConfig ?? DEFAULT_GATE_CONFIG
+    if (!gateProfileParam) {
+      return { gateConfig: campaignConfig, gateConfigErrorName: null }
+    }
+    try {
+      return { gateConfig: resolveGateConfig(gateProfileParam), gateConfigErrorName: null }
+    } catch (error) {
+      return {
+        gateConfig: campaignConfig,
+        gateConfigErrorName: error instanceof DOMException ? error.name : 'GateConfigError',
+      }
+    }
+  }, [catalog, gateProfileParam])
+  const { outputSpec, outputSpecErrorName } = useMemo(() => {
+    const campaignSpec = catalog?.outputSpec ?? DEFAULT_OUTPUT_SPEC
+    if (!outputPresetParam) {
+      return { outputSpec: campaignSpec, outputSpecErrorName: null }
+    }
+    try {
+      return { outputSpec: resolveOutputSpec(outputPresetParam), outputSpecErrorName: null }
+    } catch (error) {
+      return {
+        outputSpec: campaignSpec,
+        outputSpecErrorName: error instanceof DOMException ? error.name : 'OutputSpecError',
+      }
+    }
+  }, [catalog, outputPresetParam])
+  const { captureProfile, captureProfileErrorName } = useMemo(() => {
+    const campaignProfile = catalog?.captureProfile ?? DEFAULT_CAPTURE_PROFILE
+    if (!captureProfileParam) {
+      return { captureProfile: campaignProfile, captureProfileErrorName: null }
+    }
+    try {
+      return {
+        captureProfile: resolveCaptureProfile(captureProfileParam),
+        captureProfileErrorName: null,
+      }
+    } catch (error) {
+      return {
+        captureProfile: campaignProfile,
+        captureProfileErrorName: error instanceof DOMException ? error.name : 'CaptureProfileError',
+      }
+    }
+  }, [catalog, captureProfileParam])
+  const {
+    summary: storeSummary,
+    errorName: storeErrorName,
+    fingerprints,
+    storeTake,
+  } = useTakeStore(speakerId)
+  const { entries: uploadEntries, isOnline, enqueue, retryFailed } = useUploadQueue()
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([loadKeywordCatalog(), loadResumableSession().catch(() => null)])
+      .then(([loaded, resumable]) => {
+        if (!cancelled) {
+          setResumeFrom(resumable)
+          setCatalog(loaded)
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setCatalogErrorName(error instanceof DOMException ? error.name : 'KeywordCatalogError')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!sessionSnapshot) {
+      return
+    }
+    saveSession({ ...sessionSnapshot, updatedAt: Date.now() }).catch((error: unknown) => {
+      log.error('saveSession:error', {
+        name: error instanceof DOMException ? error.name : 'StorageError',
+      })
+    })
+  }, [sessionSnapshot])
+
+  // 창을 옮겨 다시 저장하면 바로 앞 take를 대체한다.
+  const lastStoredTakeIdRef = useRef<string | null>(null)
+
+  const handleTakeComplete = useCallback(
+    (take: RecordedTake) => {
+      if (take.keyword && take.gateResult.decision === 'PASS') {
+        markAccepted(take.keyword.id)
+      }
+      if (isHandsFree) {
+        setHandsFreeMisses((prev) => (take.gateResult.decision === 'PASS' ? 0 : prev + 1))
+      }
+      if (!sessionId) {
+        return
+      }
+      const takeId = createTakeId()
+      const supersedesTakeId =
+        take.alignment.mode === AlignmentMode.Manual ? lastStoredTakeIdRef.current : null
+      lastStoredTakeIdRef.current = takeId
+      void storeTake({
+        id: takeId,
+        sessionId,
+        speakerId,
+        keywordId: take.keyword?.id ?? null,
+        keywordText: take.keyword?.text ?? null,
+        missionKind: take.keyword?.kind ?? MissionKind.Keyword,
+        wav: take.blob,
+        sizeBytes: take.blob.size,
+        gateResult: take.gateResult,
+        durationMs: take.durationMs,
+        sampleRate: take.sampleRate,
+        outputSpec: take.outputSpec,
+        alignment: take.alignment,
+        preRollMs: take.preRollMs,
+        sourceMimeType: take.sourceMimeType,
+        recordedAt: take.recordedAt,
+        storedAt: Date.now(),
+        device: take.device,
+        fingerprint: take.fingerprint,
+        supersedesTakeId,
+      })
+        .then((stored) => {
+          // 업로드 대상은 PASS take만. 로컬 저장이 끝나야 큐에서 다시 읽을 수 있다.
+          if (stored && take.gateResult.decision === 'PASS') {
+            return enqueue(takeId, take.keyword?.text ?? null)
+          }
+        })
+        .catch((error: unknown) => {
+          // take 저장 실패는 useTakeStore가 처리한다. 여기로 오는 것은 업로드 큐 기록 실패.
+          const name = error instanceof DOMException ? error.name : 'UploadQueueError'
+          log.error('enqueue:error', { takeId, name })
+          setUploadErrorName(name)
+        })
+    },
+    [enqueue, isHandsFree, markAccepted, sessionId, speakerId, storeTake],
+  )
+
+  const handleRetryUploadsClick = async () => {
+    setUploadErrorName(null)
+    try {
+      await retryFailed()
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : 'UploadQueueError'
+      log.error('retryFailed:error', { name })
+      setUploadErrorName(name)
+    }
+  }
+
+  const handleExportClick = async () => {
+    setIsExporting(true)
+    setExportErrorName(null)
+    try {
+      const [takes, reviews] = await Promise.all([listTakes(), listReviews()])
+      const zip = await createDatasetZip(takes, { reviews })
+      const dateLabel = new Date().toISOString().slice(0, 10)
+      downloadBlob(zip, `kws-dataset-${speakerId}-${dateLabel}.zip`)
+    } catch (error) {
+      setExportErrorName(error instanceof DOMException ? error.name : 'ExportError')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const visibleUploads = uploadEntries.slice(-VISIBLE_UPLOAD_COUNT).reverse()
+  const hasFailedUploads = uploadEntries.some((entry) => entry.status === UploadStatus.Failed)
+  const pendingUploadCount = uploadEntries.filter(
+    (entry) => entry.status === UploadStatus.Pending || entry.status === UploadStatus.Uploading,
+  ).length
+
   const {
     status,
     stream,
@@ -19,36 +341,177 @@ function App() {
     elapsedMs,
     measuredDurationMs,
     gateResult,
-    outputSampleRate,
+    alignment,
+    keyword: recordedKeyword,
+    clipSpec,
+    clipPcm,
+    clipSource,
+    captureBackend,
+    mimeType,
+    captureSettings,
     maxDurationMs,
+    requestMicAccess,
+    switchInputDevice,
     startRecording,
     retry,
-  } = useRecorder({ maxDurationMs: 2000 })
+    evaluateWindow,
+    acceptWindow,
+  } = useRecorder({
+    outputSpec,
+    captureMarginMs: 500,
+    preRollMs: 300,
+    gateConfig,
+    noiseCalibration,
+    duplicateCandidates: fingerprints,
+    captureBackend: captureBackendPreference,
+    inputDeviceId,
+    captureProfile,
+    onTakeComplete: handleTakeComplete,
+  })
+  const { isSupported: canPickInputDevice, devices: inputDevices } = useAudioInputDevices(stream)
+  const isRecorderBusy =
+    status === RecorderStatus.Requesting ||
+    status === RecorderStatus.Recording ||
+    status === RecorderStatus.Processing
+
+  const handleInputDeviceChange = (deviceId: string | null) => {
+    savePreferredInputDeviceId(deviceId)
+    setInputDeviceId(deviceId)
+    void switchInputDevice(deviceId)
+  }
   const [showDebugMetrics, setShowDebugMetrics] = useState(false)
 
+  const handleDiagnosticsClick = async () => {
+    setIsSendingDiagnostics(true)
+    setDiagnosticsErrorName(null)
+    try {
+      const bundle = await createDiagnosticBundle({
+        speakerId,
+        sessionId,
+        stream,
+        recorder: { status, errorName, captureBackend, mimeType, captureSettings },
+        lastTake: audioBlob
+          ? {
+              blob: audioBlob,
+              keywordId: recordedKeyword?.id ?? null,
+              gateResult,
+              alignment,
+              outputSpec: clipSpec,
+              measuredDurationMs,
+            }
+          : null,
+      })
+      log.info('diagnostics:created', { sizeBytes: bundle.size })
+      const timeLabel = new Date().toISOString().replace(/[:.]/g, '-')
+      await shareOrDownloadBlob(bundle, `kws-diagnostics-${speakerId}-${timeLabel}.zip`)
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : 'DiagnosticsError'
+      log.error('diagnostics:error', { name })
+      setDiagnosticsErrorName(name)
+    } finally {
+      setIsSendingDiagnostics(false)
+    }
+  }
+  // 구간 편집기를 연 take의 미리듣기 URL. take가 바뀌면(새 녹음, 저장) 자동으로 닫힌다.
+  const [windowEditorUrl, setWindowEditorUrl] = useState<string | null>(null)
+  const canEditWindow =
+    status === RecorderStatus.Result &&
+    (gateResult?.decision === 'AMBIG' || gateResult?.decision === 'REJECT') &&
+    clipSource !== null &&
+    clipPcm !== null &&
+    alignment !== null
+  const clipSeconds = formatSeconds(maxDurationMs)
+  const downloadExtension = getOutputFileExtension(clipSpec ?? outputSpec)
+
+  const { status: calibrationStatus, calibrate } = useNoiseCalibration(stream, {
+    enabled: status === RecorderStatus.Ready || status === RecorderStatus.Result,
+    onCalibrated: setNoiseCalibration,
+  })
+  const isCalibrating = !!stream && calibrationStatus === CalibrationStatus.Measuring
+
   const progressPercent = Math.min((elapsedMs / maxDurationMs) * 100, 100)
+  const isMicLive = status === RecorderStatus.Ready || status === RecorderStatus.Recording
+  const inputLevel = useInputLevel(stream, {
+    enabled: isMicLive,
+    measuring: status === RecorderStatus.Recording,
+    gateConfig,
+  })
+
+  const handsFreePause: HandsFreePause | null = handsFreeTimedOut
+    ? HandsFreePause.IdleTimeout
+    : handsFreeMisses >= HANDS_FREE_MAX_MISSES
+      ? HandsFreePause.TooManyMisses
+      : null
+  const missionKind = currentKeyword?.kind ?? MissionKind.Keyword
+  // 배경 소리 미션은 말소리로 시작할 수 없으니 핸즈프리에서도 버튼으로 시작한다.
+  const isBackgroundMission = missionKind === MissionKind.Background
+  const voiceTriggerState = useVoiceTrigger(stream, {
+    armed:
+      isHandsFree &&
+      handsFreePause === null &&
+      !!currentKeyword &&
+      !isBackgroundMission &&
+      !isSessionComplete &&
+      !isCalibrating &&
+      (status === RecorderStatus.Ready || status === RecorderStatus.Result),
+    idleTimeoutMs: HANDS_FREE_IDLE_TIMEOUT_MS,
+    onTrigger: () => {
+      void startRecording(currentKeyword)
+    },
+    onTimeout: () => setHandsFreeTimedOut(true),
+  })
+  const isListening = voiceTriggerState === VoiceTriggerState.Listening
+
+  const resumeHandsFree = () => {
+    setHandsFreeTimedOut(false)
+    setHandsFreeMisses(0)
+  }
+
+  const handleHandsFreeChange = (enabled: boolean) => {
+    setIsHandsFree(enabled)
+    resumeHandsFree()
+    if (enabled && !stream) {
+      void requestMicAccess()
+    }
+  }
 
   const feedback = useMemo<Feedback>(() => {
     if (status === RecorderStatus.Requesting) {
       return {
         emoji: '🫡',
         message: '마이크 권한 요청 중이에요. 팝업에서 허용을 눌러주세요.',
-        tips: ['권한 허용 후 자동으로 2.0초 녹음 미션을 시작할 수 있어요.'],
+        tips: [`권한 허용 후 자동으로 ${clipSeconds}초 녹음 미션을 시작할 수 있어요.`],
+      }
+    }
+
+    if (status === RecorderStatus.Ready && isBackgroundMission) {
+      return {
+        emoji: '🤫',
+        message: `준비 완료! 이번엔 ${clipSeconds}초 동안 아무 말도 하지 말고 조용히 있어 주세요.`,
+        tips: ['평소 녹음하는 자리의 주변 소리를 그대로 담아요. 일부러 소리를 낼 필요는 없어요.'],
       }
     }
 
     if (status === RecorderStatus.Ready) {
       return {
         emoji: '🎯',
-        message: '준비 완료! 2초 동안 키워드를 또렷하게 말해볼까요?',
-        tips: ['시작하면 2.0초 뒤 자동 종료돼요. 중간 중지는 불가능해요.'],
+        message: `준비 완료! ${clipSeconds}초 동안 키워드를 또렷하게 말해볼까요?`,
+        tips: [`시작하면 ${clipSeconds}초 뒤 자동 종료돼요. 중간 중지는 불가능해요.`],
+      }
+    }
+
+    if (status === RecorderStatus.Recording && isBackgroundMission) {
+      return {
+        emoji: '🤫',
+        message: `쉿! 주변 소리를 녹음 중이에요. ${clipSeconds}초만 조용히 있어 주세요.`,
+        tips: ['버튼은 잠시 잠겨 있어요. 완료되면 바로 결과를 보여줄게요.'],
       }
     }
 
     if (status === RecorderStatus.Recording) {
       return {
         emoji: '🔥',
-        message: '좋아요! 지금은 자동 녹음 중이에요. 2초만 집중해서 말해요.',
+        message: `좋아요! 지금은 자동 녹음 중이에요. ${clipSeconds}초만 집중해서 말해요.`,
         tips: ['버튼은 잠시 잠겨 있어요. 완료되면 바로 결과를 보여줄게요.'],
       }
     }
@@ -56,7 +519,7 @@ function App() {
     if (status === RecorderStatus.Processing) {
       return {
         emoji: '⏳',
-        message: '잠깐만요! 녹음 파일을 16kHz mono WAV로 정리하고 있어요.',
+        message: `잠깐만요! 녹음 파일을 ${describeOutputSpec(outputSpec)}로 정리하고 있어요.`,
         tips: ['거의 끝났어요. 변환이 완료되면 바로 미리듣기를 보여드릴게요.'],
       }
     }
@@ -101,13 +564,25 @@ function App() {
       }
     }
 
+    if (status === RecorderStatus.DeviceLost) {
+      return {
+        emoji: '🔌',
+        message: '마이크 연결이 끊겼어요.',
+        tips: [
+          '녹음 중이었다면 그 take는 저장되지 않았어요.',
+          '마이크를 다시 꽂은 뒤 "다시 연결"을 눌러주세요.',
+          '아래 목록에서 다른 입력 장치를 골라도 돼요.',
+        ],
+      }
+    }
+
     if (status === RecorderStatus.Unsupported) {
       return {
         emoji: '🧩',
-        message: '이 브라우저는 MediaRecorder 지원이 제한돼요.',
+        message: '이 브라우저는 녹음 기능(MediaRecorder/AudioWorklet) 지원이 제한돼요.',
         tips: [
           'iOS Safari 일부 버전/인앱 브라우저에서 제약이 있을 수 있어요.',
-          '대체 녹음 경로(WebAudio 기반)는 추후 Task에서 제공 예정이에요.',
+          'MediaRecorder가 없으면 WebAudio(AudioWorklet) 경로로 자동 전환되지만, 둘 다 없는 환경이에요.',
         ],
       }
     }
@@ -134,10 +609,13 @@ function App() {
 
     return {
       emoji: '🙂',
-      message: '2초 고정 녹음 미션을 시작해 볼까요?',
-      tips: ['녹음을 시작하면 자동으로 2.0초 후 종료됩니다.'],
+      message: `${clipSeconds}초 고정 녹음 미션을 시작해 볼까요?`,
+      tips: [
+        '마이크를 켜면 먼저 주변 소음을 1.5초 동안 재요. 그동안은 조용히 해주세요.',
+        `녹음을 시작하면 자동으로 ${clipSeconds}초 후 종료됩니다.`,
+      ],
     }
-  }, [errorName, gateResult, status])
+  }, [clipSeconds, errorName, gateResult, isBackgroundMission, outputSpec, status])
 
   const activeDotCount =
     status === RecorderStatus.Requesting
@@ -153,16 +631,28 @@ function App() {
     if (status === RecorderStatus.Recording || status === RecorderStatus.Processing) {
       return
     }
+    if (!currentKeyword || isCalibrating) {
+      return
+    }
+    // 첫 take 전에 주변 소음을 재야 해서, 마이크가 없으면 권한만 받고 멈춘다.
+    if (!stream) {
+      await requestMicAccess()
+      return
+    }
+    if (isHandsFree && handsFreePause) {
+      resumeHandsFree()
+      return
+    }
 
-    await startRecording()
+    await startRecording(currentKeyword)
   }
 
   return (
     <main className="app">
       <section className="kws-card">
         <header className="top-panel">
-          <span className="status-badge">{status}</span>
-          <span className="progress-label">2.0s Mission</span>
+          <span className="status-badge">{isListening ? 'Listening' : status}</span>
+          <span className="progress-label">{clipSeconds}s Mission</span>
         </header>
 
         <div className="progress-track" aria-hidden="true">
@@ -178,15 +668,157 @@ function App() {
 
         {stream && (status === RecorderStatus.Ready || status === RecorderStatus.Recording) ? (
           <p className="stream-chip" aria-live="polite">
-            입력 장치 연결됨 · audio track {stream.getAudioTracks().length}개
+            입력 장치 연결됨 · {stream.getAudioTracks()[0]?.label || '이름 없는 장치'}
+          </p>
+        ) : null}
+
+        {canPickInputDevice && inputDevices.length > 0 ? (
+          <label className="device-picker">
+            입력 장치
+            <select
+              value={inputDeviceId ?? ''}
+              onChange={(event) => handleInputDeviceChange(event.target.value || null)}
+              disabled={isRecorderBusy}
+            >
+              <option value="">기본 장치</option>
+              {inputDevices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || `마이크 ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
+        <label className="debug-toggle">
+          <input
+            type="checkbox"
+            checked={isHandsFree}
+            onChange={(event) => handleHandsFreeChange(event.target.checked)}
+          />
+          핸즈프리 모드 (말하면 자동으로 녹음)
+        </label>
+
+        {isHandsFree && !isSessionComplete ? (
+          <p className={`stream-chip handsfree-chip ${isListening ? 'is-listening' : ''}`}>
+            {handsFreePause
+              ? `${HANDS_FREE_PAUSE_MESSAGES[handsFreePause]} 버튼을 누르면 다시 들어요.`
+              : isBackgroundMission
+                ? '배경 소리 미션은 버튼을 눌러 시작해요'
+                : isListening
+                  ? '🎧 듣고 있어요 · 키워드를 말하면 바로 녹음돼요'
+                  : voiceTriggerState === VoiceTriggerState.Arming
+                    ? '잠시 후 다시 들을게요...'
+                    : '녹음이 끝나면 다음 키워드를 자동으로 기다려요'}
           </p>
         ) : null}
 
+        {isResumed && acceptedCount > 0 && !isSessionComplete ? (
+          <p className="stream-chip">이전 세션을 이어서 진행해요 · {acceptedCount}개 완료됨</p>
+        ) : null}
+
         <section className="mission-card">
-          <p className="mission-label">오늘의 발화 미션</p>
-          <h1 className="mission-keyword">정확히 2.0초 말하기</h1>
+          <p className="mission-label">
+            {MISSION_LABELS[missionKind]}{totalCount > 0 ? ` · ${acceptedCount}/${totalCount}` : ''}
+          </p>
+          {isSessionComplete ? (
+            <h1 className="mission-keyword">모든 키워드 완료! 🎉</h1>
+          ) : currentKeyword ? (
+            <>
+              <h1 className="mission-keyword">{currentKeyword.text}</h1>
+              {currentKeyword.romanization && (
+                <p className="mission-romanization">{currentKeyword.romanization}</p>
+              )}
+            </>
+          ) : (
+            <h1 className="mission-keyword">
+              {catalogErrorName ? '키워드 목록을 불러오지 못했어요' : '키워드 불러오는 중...'}
+            </h1>
+          )}
+          <p className="mission-hint">{MISSION_HINTS[missionKind](clipSeconds)}</p>
+          {keywordProgress.length > 0 && (
+            <ul className="keyword-progress">
+              {keywordProgress.map((item) => (
+                <li
+                  key={item.keyword.id}
+                  className={`keyword-chip ${item.keyword.id === currentKeyword?.id ? 'is-current' : ''} ${
+                    item.accepted >= item.target ? 'is-done' : ''
+                  }`}
+                >
+                  {item.keyword.text} {item.accepted}/{item.target}
+                </li>
+              ))}
+            </ul>
+          )}
         </section>
 
+        {stream && isMicLive ? (
+          <div className="storage-row">
+            <p className="storage-chip" aria-live="polite">
+              {isCalibrating
+                ? '주변 소음 재는 중... 잠시 조용히 해주세요'
+                : noiseCalibration
+                  ? `주변 소음 ${toDbfs(noiseCalibration.noiseFloorRms)}dBFS`
+                  : '주변 소음 측정 전'}
+            </p>
+            <button
+              type="button"
+              className="export-button"
+              onClick={calibrate}
+              disabled={isCalibrating || status === RecorderStatus.Recording}
+            >
+              소음 다시 재기
+            </button>
+          </div>
+        ) : null}
+
+        {storeSummary ? (
+          <div className="storage-row">
+            <p className="storage-chip">
+              로컬 저장 {storeSummary.takeCount}개 · {formatBytes(storeSummary.totalBytes)}
+              {storeSummary.quotaBytes ? ` / ${formatBytes(storeSummary.quotaBytes)}` : ''}
+            </p>
+            {storeSummary.takeCount > 0 && (
+              <button
+                type="button"
+                className="export-button"
+                onClick={handleExportClick}
+                disabled={isExporting}
+              >
+                {isExporting ? '내보내는 중...' : '세션 내보내기'}
+              </button>
+            )}
+          </div>
+        ) : null}
+
+        {stream && isMicLive ? (
+          <section className="level-card">
+            <div className="level-track" aria-hidden="true">
+              <span className="level-fill" style={{ width: `${toMeterPercent(inputLevel.rms)}%` }} />
+              <span
+                className={`level-peak ${inputLevel.peakHold > gateConfig.clipLevel ? 'is-clipping' : ''}`}
+                style={{ left: `${toMeterPercent(inputLevel.peakHold)}%` }}
+              />
+            </div>
+            {inputLevel.warning ? (
+              <p className="level-warning" role="alert">
+                {LEVEL_WARNING_MESSAGES[inputLevel.warning]}
+              </p>
+            ) : null}
+            {captureSettings && captureSettings.ignored.length > 0 ? (
+              <p className="level-warning" role="alert">
+                브라우저가 음성 처리 요청을 따르지 않았어요:{' '}
+                {captureSettings.ignored
+                  .map(
+                    (key) =>
+                      `${PROCESSING_LABELS[key]} ${captureSettings.applied[key] ? '켜짐' : '꺼짐'}`,
+                  )
+                  .join(', ')}
+              </p>
+            ) : null}
+          </section>
+        ) : null}
+
         <section className="duration-card" aria-live="polite">
           <p className="duration-text">
             {formatSeconds(Math.min(elapsedMs, maxDurationMs))}s / {formatSeconds(maxDurationMs)}s
@@ -198,9 +830,13 @@ function App() {
 
         <button
           type="button"
-          className={`record-button ${status === RecorderStatus.Recording ? 'is-recording' : ''}`}
+          className={`record-button ${status === RecorderStatus.Recording ? 'is-recording' : ''} ${
+            isListening ? 'is-listening' : ''
+          }`}
           onClick={handleMainButtonClick}
           disabled={
+            !currentKeyword ||
+            isCalibrating ||
             status === RecorderStatus.Requesting ||
             status === RecorderStatus.Recording ||
             status === RecorderStatus.Processing
@@ -209,10 +845,18 @@ function App() {
           {status === RecorderStatus.Requesting
             ? '권한 요청 중...'
             : status === RecorderStatus.Recording
-              ? '2초 자동 녹음 진행중...'
+              ? `${clipSeconds}초 자동 녹음 진행중...`
               : status === RecorderStatus.Processing
-                ? 'WAV 변환 처리중...'
-              : '녹음 시작'}
+                ? `${outputSpec.container.toUpperCase()} 변환 처리중...`
+                : !stream
+                  ? '마이크 켜기'
+                  : isCalibrating
+                    ? '주변 소음 재는 중...'
+                    : isHandsFree && handsFreePause
+                      ? '다시 듣기'
+                      : isListening
+                        ? '듣는 중... (눌러서 바로 녹음)'
+                        : '녹음 시작'}
         </button>
 
         {status === RecorderStatus.Processing && (
@@ -232,22 +876,56 @@ function App() {
           </button>
         )}
 
+        {status === RecorderStatus.DeviceLost && (
+          <button type="button" className="retry-button" onClick={retry}>
+            다시 연결
+          </button>
+        )}
+
         {audioUrl ? (
           <section className="preview-card">
-            <p className="preview-title">미리 듣기</p>
+            <p className="preview-title">
+              미리 듣기{recordedKeyword ? ` · ${recordedKeyword.text}` : ''}
+            </p>
             <audio controls src={audioUrl} className="audio-player">
               브라우저가 오디오 재생을 지원하지 않습니다.
             </audio>
             <p className="preview-meta">
-              {audioBlob ? `${Math.round(audioBlob.size / 1024)}KB` : '0KB'} · 16-bit PCM WAV ·{' '}
-              {outputSampleRate ? `${outputSampleRate}Hz mono` : 'sample rate unknown'} ·{' '}
+              {audioBlob ? `${Math.round(audioBlob.size / 1024)}KB` : '0KB'} ·{' '}
+              {clipSpec ? describeOutputSpec(clipSpec) : 'format unknown'} ·{' '}
               {measuredDurationMs ? `${formatSeconds(measuredDurationMs)}s` : '길이 측정 불가'}
             </p>
-            <a className="download-button" href={audioUrl} download="sample.wav">
-              WAV 다운로드 (sample.wav)
+            <a className="download-button" href={audioUrl} download={`sample.${downloadExtension}`}>
+              {downloadExtension.toUpperCase()} 다운로드 (sample.{downloadExtension})
             </a>
             <p className="debug-caption">디버그용 파일 저장 버튼입니다.</p>
 
+            {canEditWindow && windowEditorUrl !== audioUrl && (
+              <button
+                type="button"
+                className="retry-button"
+                onClick={() => setWindowEditorUrl(audioUrl)}
+              >
+                구간 직접 맞추기
+              </button>
+            )}
+
+            {canEditWindow && windowEditorUrl === audioUrl && (
+              <WindowEditor
+                key={audioUrl}
+                source={clipSource}
+                windowSamples={clipPcm.pcm.length}
+                initialOffsetSamples={alignment.offsetSamples}
+                autoOffsetSamples={
+                  alignment.autoOffsetMs === undefined
+                    ? alignment.offsetSamples
+                    : Math.round((alignment.autoOffsetMs * clipSource.sampleRate) / 1000)
+                }
+                evaluate={evaluateWindow}
+                onSave={acceptWindow}
+              />
+            )}
+
             <label className="debug-toggle">
               <input
                 type="checkbox"
@@ -257,6 +935,15 @@ function App() {
               개발자 토글(디버그 보기)
             </label>
 
+            {showDebugMetrics && gateResult && clipPcm && (
+              <ClipVisualizer
+                pcm={clipPcm.pcm}
+                sampleRate={clipPcm.sampleRate}
+                gateResult={gateResult}
+                gateConfig={gateConfig}
+              />
+            )}
+
             {showDebugMetrics && gateResult && (
               <dl className="debug-metrics">
                 <div>
@@ -267,6 +954,10 @@ function App() {
                   <dt>reason</dt>
                   <dd>{gateResult.reason}</dd>
                 </div>
+                <div>
+                  <dt>profile</dt>
+                  <dd>{gateResult.profileId}</dd>
+                </div>
                 <div>
                   <dt>rms</dt>
                   <dd>{gateResult.debugMetrics.rms.toFixed(4)}</dd>
@@ -291,11 +982,78 @@ function App() {
                   <dt>lastSpeechMs</dt>
                   <dd>{gateResult.debugMetrics.lastSpeechMs ?? '-'}</dd>
                 </div>
+                <div>
+                  <dt>snr</dt>
+                  <dd>
+                    {gateResult.debugMetrics.snrDb === null
+                      ? '-'
+                      : `${gateResult.debugMetrics.snrDb.toFixed(1)}dB`}{' '}
+                    (noise {gateResult.debugMetrics.noiseFloorSource})
+                  </dd>
+                </div>
+                <div>
+                  <dt>integrity</dt>
+                  <dd>
+                    dc {gateResult.debugMetrics.dcOffset.toFixed(3)} · hf{' '}
+                    {gateResult.debugMetrics.highBandDb === null
+                      ? '-'
+                      : `${gateResult.debugMetrics.highBandDb.toFixed(1)}dB`}{' '}
+                    · dropout {gateResult.debugMetrics.dropoutCount} · suppressed{' '}
+                    {gateResult.debugMetrics.suppressedFrameRatio === null
+                      ? '-'
+                      : `${(gateResult.debugMetrics.suppressedFrameRatio * 100).toFixed(0)}%`}
+                  </dd>
+                </div>
+                <div>
+                  <dt>duplicate</dt>
+                  <dd>
+                    {gateResult.debugMetrics.duplicateSimilarity === null
+                      ? '-'
+                      : `${(gateResult.debugMetrics.duplicateSimilarity * 100).toFixed(0)}% (${gateResult.debugMetrics.duplicateOfTakeId})`}
+                  </dd>
+                </div>
+                {alignment && (
+                  <div>
+                    <dt>window</dt>
+                    <dd>
+                      {alignment.mode} · offset {alignment.offsetMs}ms / raw{' '}
+                      {alignment.sourceDurationMs}ms
+                    </dd>
+                  </div>
+                )}
               </dl>
             )}
           </section>
         ) : null}
 
+        {visibleUploads.length > 0 && (
+          <section className="upload-card" aria-live="polite">
+            <p className="upload-title">
+              업로드 현황
+              {pendingUploadCount > 0 ? ` · 대기 ${pendingUploadCount}개` : ''}
+              {isOnline ? '' : ' · 오프라인 (연결되면 자동 전송)'}
+            </p>
+            <ul className="upload-list">
+              {visibleUploads.map((entry) => (
+                <li key={entry.takeId} className="upload-item">
+                  <span>{entry.keywordText ?? entry.takeId.slice(0, 8)}</span>
+                  <span className={`upload-status is-${entry.status}`}>
+                    {UPLOAD_STATUS_LABELS[entry.status]}
+                    {entry.status === UploadStatus.Pending && entry.attempts > 0
+                      ? ` (재시도 ${entry.attempts})`
+                      : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {hasFailedUploads && (
+              <button type="button" className="retry-button" onClick={handleRetryUploadsClick}>
+                실패한 업로드 다시 보내기
+              </button>
+            )}
+          </section>
+        )}
+
         <section className="result-card" aria-live="polite">
           <p className="result-emoji">{feedback.emoji}</p>
           <p className="result-message">{feedback.message}</p>
@@ -304,6 +1062,24 @@ function App() {
               <li key={tip}>{tip}</li>
             ))}
           </ul>
+          {catalogErrorName && <p className="error-code">에러 코드: {catalogErrorName}</p>}
+          {gateConfigErrorName && (
+            <p className="error-code">게이트 설정 에러: {gateConfigErrorName} (기본 기준 사용)</p>
+          )}
+          {outputSpecErrorName && (
+            <p className="error-code">출력 형식 에러: {outputSpecErrorName} (캠페인 형식 사용)</p>
+          )}
+          {captureProfileErrorName && (
+            <p className="error-code">
+              음성 처리 설정 에러: {captureProfileErrorName} (캠페인 설정 사용)
+            </p>
+          )}
+          {storeErrorName && <p className="error-code">저장 에러: {storeErrorName}</p>}
+          {exportErrorName && <p className="error-code">내보내기 에러: {exportErrorName}</p>}
+          {uploadErrorName && <p className="error-code">업로드 대기열 에러: {uploadErrorName}</p>}
+          {diagnosticsErrorName && (
+            <p className="error-code">진단 정보 에러: {diagnosticsErrorName}</p>
+          )}
           {errorName && (
             <p className="error-code">
               에러 코드: {errorName}
@@ -311,19 +1087,44 @@ function App() {
             </p>
           )}
 
-          {status === RecorderStatus.Result && gateResult?.decision === 'PASS' && (
-            <button type="button" className="cta-button is-pass" onClick={startRecording}>
-              다음!
-            </button>
-          )}
+          {status === RecorderStatus.Result &&
+            gateResult?.decision === 'PASS' &&
+            (isSessionComplete ? (
+              <button type="button" className="cta-button is-pass" onClick={restartSession}>
+                처음부터 다시
+              </button>
+            ) : (
+              <button
+                type="button"
+                className="cta-button is-pass"
+                onClick={() => startRecording(currentKeyword)}
+              >
+                다음!
+              </button>
+            ))}
 
           {status === RecorderStatus.Result &&
             (gateResult?.decision === 'AMBIG' || gateResult?.decision === 'REJECT') && (
-              <button type="button" className="cta-button is-retry" onClick={startRecording}>
+              <button
+                type="button"
+                className="cta-button is-retry"
+                onClick={() => startRecording(currentKeyword)}
+              >
                 다시 말하기
               </button>
             )}
         </section>
+
+        <div className="storage-row">
+          <button
+            type="button"
+            className="export-button"
+            onClick={handleDiagnosticsClick}
+            disabled={isSendingDiagnostics}
+          >
+            {isSendingDiagnostics ? '진단 정보 모으는 중...' : '진단 정보 보내기'}
+          </button>
+        </div>
       </section>
     </main>
   )
@@ -0,0 +1,255 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  computeCollectionAnalytics,
+  RETRY_BUCKET_COUNT,
+  type BreakdownRow,
+  type MetricDistribution,
+} from '../utils/analytics'
+import { downloadBlob } from '../utils/download'
+import type { GateDecision, GateReason } from '../utils/gate'
+import { listTakes, type StoredTake } from '../utils/takeStore'
+
+const ALL_SESSIONS = 'all'
+const DECISIONS: GateDecision[] = ['PASS', 'AMBIG', 'REJECT']
+// 행마다 보여줄 사유 수. 나머지는 JSON으로 내려받아 본다.
+const TOP_REASON_COUNT = 2
+
+const formatPercent = (count: number, total: number) =>
+  total > 0 ? `${Math.round((count / total) * 100)}%` : '-'
+
+const topReasons = (row: BreakdownRow) =>
+  (Object.entries(row.reasons) as [GateReason, number][])
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_REASON_COUNT)
+
+type BreakdownTableProps = {
+  title: string
+  rows: BreakdownRow[]
+}
+
+const BreakdownTable = ({ title, rows }: BreakdownTableProps) => (
+  <section className="analytics-section">
+    <p className="analytics-title">{title}</p>
+    {rows.length === 0 ? (
+      <p className="analytics-empty">기록 없음</p>
+    ) : (
+      <ul className="analytics-rows">
+        {rows.map((row) => (
+          <li key={row.key} className="analytics-row">
+            <div className="analytics-row-head">
+              <span className="analytics-row-key">{row.key}</span>
+              <span className="analytics-row-total">{row.total}개</span>
+            </div>
+            <div className="analytics-bar" aria-hidden="true">
+              {DECISIONS.map((decision) => (
+                <span
+                  key={decision}
+                  className={`analytics-bar-fill is-${decision.toLowerCase()}`}
+                  style={{ width: formatPercent(row.decisions[decision], row.total) }}
+                />
+              ))}
+            </div>
+            <p className="analytics-row-meta">
+              {DECISIONS.map(
+                (decision) => `${decision} ${formatPercent(row.decisions[decision], row.total)}`,
+              ).join(' · ')}
+              {topReasons(row).map(
+                ([reason, count]) => ` · ${reason} ${formatPercent(count, row.total)}`,
+              )}
+            </p>
+          </li>
+        ))}
+      </ul>
+    )}
+  </section>
+)
+
+type HistogramProps = {
+  title: string
+  distribution: MetricDistribution
+  format: (value: number) => string
+}
+
+const Histogram = ({ title, distribution, format }: HistogramProps) => {
+  const peak = Math.max(1, ...distribution.bins.map((bin) => bin.count))
+  const describe = (value: number | null) => (value === null ? '-' : format(value))
+  return (
+    <section className="analytics-section">
+      <p className="analytics-title">{title}</p>
+      <div className="analytics-histogram">
+        {distribution.bins.map((bin) => (
+          <span
+            key={bin.start}
+            className="analytics-histogram-bar"
+            style={{ height: `${(bin.count / peak) * 100}%` }}
+            title={`${format(bin.start)} ~ ${format(bin.end)}: ${bin.count}개`}
+          />
+        ))}
+      </div>
+      <p className="analytics-row-meta">
+        p10 {describe(distribution.p10)} · 중앙값 {describe(distribution.median)} · p90{' '}
+        {describe(distribution.p90)} · 평균 {describe(distribution.mean)}
+        {distribution.missingCount > 0 ? ` · 값 없음 ${distribution.missingCount}개` : ''}
+      </p>
+    </section>
+  )
+}
+
+/**
+ * 저장된 take로 만든 수집 품질 대시보드. ?mode=analytics로 연다.
+ * 판정 비율을 사유, 키워드, 브라우저, 녹음 형식, 입력 장치별로 나눠 어느 경로가 문제인지 찾는다.
+ */
+export const AnalyticsDashboard = () => {
+  const [takes, setTakes] = useState<StoredTake[] | null>(null)
+  const [errorName, setErrorName] = useState<string | null>(null)
+  const [sessionId, setSessionId] = useState(ALL_SESSIONS)
+
+  useEffect(() => {
+    let cancelled = false
+    listTakes()
+      .then((loaded) => {
+        if (!cancelled) {
+          setTakes(loaded)
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setErrorName(error instanceof DOMException ? error.name : 'StorageError')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const sessions = useMemo(() => {
+    const firstRecordedAt = new Map<string, number>()
+    for (const take of takes ?? []) {
+      const recordedAt = firstRecordedAt.get(take.sessionId) ?? Infinity
+      firstRecordedAt.set(take.sessionId, Math.min(recordedAt, take.recordedAt))
+    }
+    return [...firstRecordedAt].sort((a, b) => b[1] - a[1])
+  }, [takes])
+
+  const analytics = useMemo(
+    () =>
+      computeCollectionAnalytics(
+        (takes ?? []).filter((take) => sessionId === ALL_SESSIONS || take.sessionId === sessionId),
+      ),
+    [sessionId, takes],
+  )
+  const { retries } = analytics
+
+  const handleDownloadClick = () => {
+    const json = JSON.stringify({ sessionId, generatedAt: Date.now(), ...analytics }, null, 2)
+    const dateLabel = new Date().toISOString().slice(0, 10)
+    downloadBlob(
+      new Blob([json], { type: 'application/json' }),
+      `kws-analytics-${dateLabel}.json`,
+    )
+  }
+
+  return (
+    <main className="app">
+      <section className="kws-card analytics-card">
+        <div className="top-panel">
+          <span className="status-badge">수집 현황</span>
+          <select
+            value={sessionId}
+            onChange={(event) => setSessionId(event.target.value)}
+            aria-label="세션"
+          >
+            <option value={ALL_SESSIONS}>모든 세션 ({sessions.length}개)</option>
+            {sessions.map(([id, recordedAt]) => (
+              <option key={id} value={id}>
+                {new Date(recordedAt).toLocaleString()}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {errorName && (
+          <p className="error-code" role="alert">
+            저장소 오류: {errorName}
+          </p>
+        )}
+        {takes === null && !errorName && <p className="analytics-empty">불러오는 중...</p>}
+
+        <div className="analytics-summary">
+          <span>take {analytics.takeCount}개</span>
+          {DECISIONS.map((decision) => (
+            <span key={decision} className={`analytics-decision is-${decision.toLowerCase()}`}>
+              {decision} {formatPercent(analytics.decisions[decision], analytics.takeCount)}
+            </span>
+          ))}
+        </div>
+
+        <section className="analytics-section">
+          <p className="analytics-title">PASS 하나당 재시도</p>
+          <p className="analytics-row-meta">
+            평균{' '}
+            {retries.retriesPerAccepted === null ? '-' : retries.retriesPerAccepted.toFixed(2)}번 ·
+            PASS {retries.acceptedCount}개 · 전체 시도 {retries.attemptCount}번 · 마무리 안 된 시도{' '}
+            {retries.unfinishedAttemptCount}번
+          </p>
+          <p className="analytics-row-meta">
+            {retries.distribution
+              .map(
+                (count, index) =>
+                  `${index}${index === RETRY_BUCKET_COUNT - 1 ? '+' : ''}번 ${formatPercent(
+                    count,
+                    retries.acceptedCount,
+                  )}`,
+              )
+              .join(' · ')}
+          </p>
+          <ul className="analytics-rows">
+            {retries.byKeyword.map((row) => (
+              <li key={row.key} className="analytics-row-meta">
+                {row.key}: PASS {row.acceptedCount}개 · 평균{' '}
+                {row.retriesPerAccepted === null ? '-' : row.retriesPerAccepted.toFixed(2)}번
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <BreakdownTable title="판정 사유" rows={analytics.byReason} />
+        <BreakdownTable title="키워드" rows={analytics.byKeyword} />
+        <BreakdownTable title="브라우저" rows={analytics.byBrowser} />
+        <BreakdownTable title="녹음 형식" rows={analytics.byMimeType} />
+        <BreakdownTable title="브라우저 · 녹음 형식" rows={analytics.byBrowserMimeType} />
+        <BreakdownTable title="입력 장치" rows={analytics.byInputDevice} />
+
+        <Histogram
+          title="rms"
+          distribution={analytics.metrics.rms}
+          format={(value) => value.toFixed(3)}
+        />
+        <Histogram
+          title="발화 비율 (speechRatio)"
+          distribution={analytics.metrics.speechRatio}
+          format={(value) => `${Math.round(value * 100)}%`}
+        />
+        <Histogram
+          title="첫 발화 위치 (firstSpeechMs)"
+          distribution={analytics.metrics.firstSpeechMs}
+          format={(value) => `${Math.round(value)}ms`}
+        />
+
+        <div className="storage-row">
+          <button
+            type="button"
+            className="export-button"
+            onClick={handleDownloadClick}
+            disabled={analytics.takeCount === 0}
+          >
+            JSON 내려받기
+          </button>
+          <a className="export-button" href={window.location.pathname}>
+            녹음 화면으로
+          </a>
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { resolveTimingLimits, type GateResult, type SpeechMask } from '../utils/gate'
+import type { GateConfig } from '../utils/gateConfig'
+import { computeLogMelSpectrogram, type MelSpectrogram } from '../utils/melSpectrogram'
+
+type ClipVisualizerProps = {
+  pcm: Float32Array
+  sampleRate: number
+  gateResult: GateResult
+  gateConfig: GateConfig
+}
+
+type TimeMarker = {
+  ms: number
+  color: string
+  dashed: boolean
+}
+
+const WAVEFORM_HEIGHT = 96
+const SPECTROGRAM_HEIGHT = 96
+// 스펙트로그램에서는 발화 프레임을 그림을 가리지 않게 아래쪽 띠로만 표시한다.
+const MASK_STRIP_HEIGHT = 5
+
+const COLORS = {
+  background: '#f7fff9',
+  axis: '#cdeed8',
+  wave: '#2d7d4a',
+  speech: 'rgba(46, 180, 95, 0.2)',
+  speechStrip: '#2eb45f',
+  speechEdge: '#12633d',
+  clip: '#e0453a',
+  limit: '#e08a1e',
+} as const
+
+// 낮은 값(어두운 남색) -> 높은 값(밝은 노랑). viridis를 대충 따라간 5단계.
+const COLOR_STOPS: [number, number, number][] = [
+  [20, 18, 60],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+]
+
+const toColor = (ratio: number): [number, number, number] => {
+  const position = Math.max(0, Math.min(1, ratio)) * (COLOR_STOPS.length - 1)
+  const index = Math.min(COLOR_STOPS.length - 2, Math.floor(position))
+  const weight = position - index
+  const [from, to] = [COLOR_STOPS[index], COLOR_STOPS[index + 1]]
+  return [0, 1, 2].map((channel) =>
+    Math.round(from[channel] + (to[channel] - from[channel]) * weight),
+  ) as [number, number, number]
+}
+
+// CSS 폭에 맞춰 캔버스 해상도를 다시 잡는다. 고해상도 화면에서도 선이 흐려지지 않게 dpr을 곱한다.
+const prepareCanvas = (canvas: HTMLCanvasElement, height: number) => {
+  const context = canvas.getContext('2d')
+  if (!context) {
+    return null
+  }
+  const width = Math.max(1, canvas.clientWidth)
+  const dpr = window.devicePixelRatio || 1
+  canvas.width = Math.round(width * dpr)
+  canvas.height = Math.round(height * dpr)
+  context.setTransform(dpr, 0, 0, dpr, 0, 0)
+  context.clearRect(0, 0, width, height)
+  return { context, width }
+}
+
+const drawSpeechMask = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  top: number,
+  height: number,
+  mask: SpeechMask,
+  durationMs: number,
+  color: string,
+) => {
+  context.fillStyle = color
+  mask.frames.forEach((isSpeech, index) => {
+    if (!isSpeech) {
+      return
+    }
+    const startX = ((index * mask.frameMs) / durationMs) * width
+    const endX = (((index + 1) * mask.frameMs) / durationMs) * width
+    context.fillRect(startX, top, Math.max(1, endX - startX), height)
+  })
+}
+
+const drawMarkers = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  markers: TimeMarker[],
+  durationMs: number,
+) => {
+  context.lineWidth = 1.5
+  for (const marker of markers) {
+    const x = Math.round((marker.ms / durationMs) * width) + 0.5
+    context.strokeStyle = marker.color
+    context.setLineDash(marker.dashed ? [4, 3] : [])
+    context.beginPath()
+    context.moveTo(x, 0)
+    context.lineTo(x, height)
+    context.stroke()
+  }
+  context.setLineDash([])
+}
+
+const drawWaveform = (
+  canvas: HTMLCanvasElement,
+  pcm: Float32Array,
+  clipLevel: number,
+  mask: SpeechMask,
+  markers: TimeMarker[],
+  durationMs: number,
+) => {
+  const prepared = prepareCanvas(canvas, WAVEFORM_HEIGHT)
+  if (!prepared) {
+    return
+  }
+  const { context, width } = prepared
+  const middle = WAVEFORM_HEIGHT / 2
+  const toY = (sample: number) => middle - sample * (middle - 2)
+
+  context.fillStyle = COLORS.background
+  context.fillRect(0, 0, width, WAVEFORM_HEIGHT)
+  drawSpeechMask(context, width, 0, WAVEFORM_HEIGHT, mask, durationMs, COLORS.speech)
+  context.fillStyle = COLORS.axis
+  context.fillRect(0, middle, width, 1)
+
+  // 픽셀 한 칸에 들어가는 샘플의 최소/최대를 세로 선으로 그린다.
+  const samplesPerColumn = pcm.length / width
+  for (let column = 0; column < width; column += 1) {
+    const start = Math.floor(column * samplesPerColumn)
+    const end = Math.max(start + 1, Math.floor((column + 1) * samplesPerColumn))
+    let min = 1
+    let max = -1
+    let clipped = false
+    for (let index = start; index < end && index < pcm.length; index += 1) {
+      const sample = pcm[index]
+      min = Math.min(min, sample)
+      max = Math.max(max, sample)
+      if (Math.abs(sample) > clipLevel) {
+        clipped = true
+      }
+    }
+    if (max < min) {
+      continue
+    }
+    context.fillStyle = COLORS.wave
+    context.fillRect(column, toY(max), 1, Math.max(1, toY(min) - toY(max)))
+    if (clipped) {
+      context.fillStyle = COLORS.clip
+      context.fillRect(column, 0, 1, 4)
+      context.fillRect(column, WAVEFORM_HEIGHT - 4, 1, 4)
+    }
+  }
+
+  drawMarkers(context, width, WAVEFORM_HEIGHT, markers, durationMs)
+}
+
+const drawSpectrogram = (
+  canvas: HTMLCanvasElement,
+  spectrogram: MelSpectrogram,
+  mask: SpeechMask,
+  markers: TimeMarker[],
+  durationMs: number,
+) => {
+  const prepared = prepareCanvas(canvas, SPECTROGRAM_HEIGHT)
+  if (!prepared || spectrogram.frameCount === 0) {
+    return
+  }
+  const { context, width } = prepared
+  const { frameCount, melBinCount, values, minDb, maxDb } = spectrogram
+
+  // mel 한 칸 = 1픽셀인 작은 이미지를 만들고 캔버스 크기로 늘려 그린다.
+  const image = new ImageData(frameCount, melBinCount)
+  const range = maxDb - minDb || 1
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    for (let mel = 0; mel < melBinCount; mel += 1) {
+      const [red, green, blue] = toColor((values[frame * melBinCount + mel] - minDb) / range)
+      // 위쪽이 높은 주파수.
+      const offset = ((melBinCount - 1 - mel) * frameCount + frame) * 4
+      image.data[offset] = red
+      image.data[offset + 1] = green
+      image.data[offset + 2] = blue
+      image.data[offset + 3] = 255
+    }
+  }
+  const source = document.createElement('canvas')
+  source.width = frameCount
+  source.height = melBinCount
+  source.getContext('2d')?.putImageData(image, 0, 0)
+  const imageWidth = Math.min(width, ((frameCount * spectrogram.hopMs) / durationMs) * width)
+  context.fillStyle = COLORS.background
+  context.fillRect(0, 0, width, SPECTROGRAM_HEIGHT)
+  context.drawImage(source, 0, 0, imageWidth, SPECTROGRAM_HEIGHT - MASK_STRIP_HEIGHT)
+
+  drawSpeechMask(
+    context,
+    width,
+    SPECTROGRAM_HEIGHT - MASK_STRIP_HEIGHT,
+    MASK_STRIP_HEIGHT,
+    mask,
+    durationMs,
+    COLORS.speechStrip,
+  )
+  drawMarkers(context, width, SPECTROGRAM_HEIGHT, markers, durationMs)
+}
+
+/**
+ * 변환된 PCM의 파형과 log-mel 스펙트로그램. 게이트가 본 발화 프레임, 첫/마지막 발화 위치,
+ * 클리핑된 샘플, 시작/끝 타이밍 한계를 겹쳐 그려서 판정 사유를 눈으로 확인할 수 있게 한다.
+ */
+export const ClipVisualizer = ({ pcm, sampleRate, gateResult, gateConfig }: ClipVisualizerProps) => {
+  const waveformRef = useRef<HTMLCanvasElement | null>(null)
+  const spectrogramRef = useRef<HTMLCanvasElement | null>(null)
+  const spectrogram = useMemo(() => computeLogMelSpectrogram(pcm, sampleRate), [pcm, sampleRate])
+  const durationMs = (pcm.length / sampleRate) * 1000
+  const { lateStartMs, earlyEndMs } = resolveTimingLimits(gateConfig, durationMs)
+  const { firstSpeechMs, lastSpeechMs } = gateResult.debugMetrics
+
+  useEffect(() => {
+    const waveformCanvas = waveformRef.current
+    const spectrogramCanvas = spectrogramRef.current
+    if (!waveformCanvas || !spectrogramCanvas || durationMs <= 0) {
+      return
+    }
+
+    const markers: TimeMarker[] = [
+      { ms: lateStartMs, color: COLORS.limit, dashed: true },
+      { ms: earlyEndMs, color: COLORS.limit, dashed: true },
+    ]
+    for (const ms of [firstSpeechMs, lastSpeechMs]) {
+      if (ms !== null) {
+        markers.push({ ms, color: COLORS.speechEdge, dashed: false })
+      }
+    }
+
+    const draw = () => {
+      drawWaveform(
+        waveformCanvas,
+        pcm,
+        gateConfig.clipLevel,
+        gateResult.speechMask,
+        markers,
+        durationMs,
+      )
+      drawSpectrogram(spectrogramCanvas, spectrogram, gateResult.speechMask, markers, durationMs)
+    }
+    draw()
+
+    // 카드 폭이 바뀌면(회전, 창 크기) 해상도를 다시 맞춰 그린다.
+    if (typeof ResizeObserver === 'undefined') {
+      return
+    }
+    const observer = new ResizeObserver(draw)
+    observer.observe(waveformCanvas)
+    return () => observer.disconnect()
+  }, [
+    durationMs,
+    earlyEndMs,
+    firstSpeechMs,
+    gateConfig.clipLevel,
+    gateResult.speechMask,
+    lastSpeechMs,
+    lateStartMs,
+    pcm,
+    spectrogram,
+  ])
+
+  return (
+    <figure className="clip-visualizer">
+      <canvas
+        ref={waveformRef}
+        className="clip-canvas"
+        style={{ height: WAVEFORM_HEIGHT }}
+        aria-label="파형"
+      />
+      <canvas
+        ref={spectrogramRef}
+        className="clip-canvas"
+        style={{ height: SPECTROGRAM_HEIGHT }}
+        aria-label="log-mel 스펙트로그램"
+      />
+      <figcaption className="clip-legend">
+        <span>
+          <i className="legend-swatch is-speech" /> 발화 프레임
+        </span>
+        <span>
+          <i className="legend-swatch is-edge" /> 첫/마지막 발화 ({firstSpeechMs ?? '-'} /{' '}
+          {lastSpeechMs ?? '-'}ms)
+        </span>
+        <span>
+          <i className="legend-swatch is-clip" /> 클리핑
+        </span>
+        <span>
+          <i className="legend-swatch is-limit" /> 시작/끝 한계 ({Math.round(lateStartMs)} /{' '}
+          {Math.round(earlyEndMs)}ms)
+        </span>
+      </figcaption>
+    </figure>
+  )
+}
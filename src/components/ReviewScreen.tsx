@@ -0,0 +1,618 @@
+import { useEffect, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from 'react'
+import {
+  ReviewFilter,
+  useReviewQueue,
+  type ReviewImportSummary,
+  type ReviewInput,
+} from '../hooks/useReviewQueue'
+import { downloadBlob } from '../utils/download'
+import { createDatasetZip } from '../utils/datasetExport'
+import { createLogger } from '../utils/eventLog'
+import type { GateDecision } from '../utils/gate'
+import { DEFAULT_GATE_CONFIG, resolveGateConfig, type GateConfig } from '../utils/gateConfig'
+import { MissionKind, SILENCE_LABEL, toTrainingLabel, UNKNOWN_LABEL } from '../utils/mission'
+import { getReviewerId, setReviewerId } from '../utils/participant'
+import {
+  computeReviewStats,
+  REVIEW_REASON_PRESETS,
+  ReviewVerdict,
+  summarizeTakeReviews,
+  type TakeReview,
+} from '../utils/review'
+import { UploadStatus, type StoredTake } from '../utils/takeStore'
+import { decodeWav } from '../utils/wavDecoder'
+import { ClipVisualizer } from './ClipVisualizer'
+
+const log = createLogger('ReviewScreen')
+
+const DECISION_LABELS: Record<GateDecision, string> = {
+  PASS: '통과',
+  AMBIG: '애매',
+  REJECT: '거절',
+}
+
+const VERDICT_LABELS: Record<ReviewVerdict, string> = {
+  [ReviewVerdict.Accept]: '받아들임',
+  [ReviewVerdict.Reject]: '버림',
+  [ReviewVerdict.Relabel]: '라벨 바꿈',
+}
+
+const VERDICT_KEYS: Record<string, ReviewVerdict> = {
+  a: ReviewVerdict.Accept,
+  r: ReviewVerdict.Reject,
+  l: ReviewVerdict.Relabel,
+}
+
+const FILTER_LABELS: Record<ReviewFilter, string> = {
+  [ReviewFilter.All]: '전체',
+  [ReviewFilter.Unreviewed]: '내가 안 본 것',
+  [ReviewFilter.Pass]: '게이트 통과',
+  [ReviewFilter.Ambig]: '게이트 애매',
+  [ReviewFilter.Reject]: '게이트 거절',
+}
+
+const UPLOAD_STATUS_LABELS: Record<UploadStatus, string> = {
+  [UploadStatus.Pending]: '업로드 대기',
+  [UploadStatus.Uploading]: '업로드 중',
+  [UploadStatus.Uploaded]: '업로드됨',
+  [UploadStatus.Failed]: '업로드 실패',
+}
+
+const toTakeLabel = (take: StoredTake) =>
+  toTrainingLabel(take.missionKind ?? MissionKind.Keyword, take.keywordId)
+
+// 저장된 take에는 프로필 id만 남아 있다. +custom처럼 복원할 수 없는 값이면 기본 프로필로 그린다.
+const resolveTakeGateConfig = (profileId: string): GateConfig => {
+  try {
+    return resolveGateConfig(profileId.replace(/\+custom$/, ''))
+  } catch {
+    return DEFAULT_GATE_CONFIG
+  }
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${Math.round(value * 100)}%`
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement
+
+type DecodedClip = {
+  pcm: Float32Array
+  sampleRate: number
+}
+
+type TakeReviewPanelProps = {
+  take: StoredTake
+  labelOptions: string[]
+  myReview: TakeReview | null
+  otherReviews: TakeReview[]
+  uploadStatus: UploadStatus | null
+  onSubmit: (input: ReviewInput) => Promise<boolean>
+  onStep: (delta: 1 | -1) => void
+  onJumpToUnreviewed: () => void
+}
+
+/**
+ * take 하나를 듣고 판정하는 패널. take가 바뀌면 key로 새로 만들어 입력값을 초기화한다.
+ */
+const TakeReviewPanel = ({
+  take,
+  labelOptions,
+  myReview,
+  otherReviews,
+  uploadStatus,
+  onSubmit,
+  onStep,
+  onJumpToUnreviewed,
+}: TakeReviewPanelProps) => {
+  const originalLabel = toTakeLabel(take)
+  const relabelOptions = labelOptions.filter((label) => label !== originalLabel)
+  const gateConfig = useMemo(
+    () => resolveTakeGateConfig(take.gateResult.profileId),
+    [take.gateResult.profileId],
+  )
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const [verdict, setVerdict] = useState<ReviewVerdict | null>(myReview?.verdict ?? null)
+  const [label, setLabel] = useState(myReview?.label ?? relabelOptions[0] ?? UNKNOWN_LABEL)
+  const [reason, setReason] = useState(myReview?.reason ?? '')
+  const [isSaving, setIsSaving] = useState(false)
+  const [decoded, setDecoded] = useState<DecodedClip | null>(null)
+  const [decodeErrorName, setDecodeErrorName] = useState<string | null>(null)
+  const { gateResult } = take
+  const presets = verdict ? REVIEW_REASON_PRESETS[verdict] : []
+  const needsReason = verdict === ReviewVerdict.Reject || verdict === ReviewVerdict.Relabel
+  const canSave =
+    verdict !== null &&
+    !isSaving &&
+    (!needsReason || reason.trim() !== '') &&
+    (verdict !== ReviewVerdict.Relabel || label !== originalLabel)
+  const consensus =
+    myReview && otherReviews.length > 0
+      ? summarizeTakeReviews([myReview, ...otherReviews], originalLabel)
+      : null
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) {
+      return
+    }
+    const url = URL.createObjectURL(take.wav)
+    audio.src = url
+    return () => {
+      audio.removeAttribute('src')
+      URL.revokeObjectURL(url)
+    }
+  }, [take.wav])
+
+  useEffect(() => {
+    let cancelled = false
+    take.wav
+      .arrayBuffer()
+      .then((buffer) => {
+        const wav = decodeWav(new Uint8Array(buffer))
+        if (!cancelled) {
+          setDecoded({ pcm: wav.pcm, sampleRate: wav.sampleRate })
+        }
+      })
+      .catch((error: unknown) => {
+        // FLAC으로 저장한 take는 그림 없이 소리와 판정만 보여준다.
+        if (!cancelled) {
+          setDecodeErrorName(error instanceof DOMException ? error.name : 'DecodeError')
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [take.wav])
+
+  const save = async () => {
+    if (!canSave || verdict === null) {
+      return
+    }
+    setIsSaving(true)
+    const saved = await onSubmit({
+      takeId: take.id,
+      verdict,
+      label: verdict === ReviewVerdict.Relabel ? label : null,
+      reason: reason.trim(),
+    })
+    setIsSaving(false)
+    if (saved) {
+      onStep(1)
+    }
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    void save()
+  }
+
+  const handleKeyDownRef = useRef<(event: KeyboardEvent) => void>(() => {})
+  useEffect(() => {
+    handleKeyDownRef.current = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) {
+        return
+      }
+      const key = event.key.toLowerCase()
+      if (key === 'arrowright' || key === 'j') {
+        onStep(1)
+      } else if (key === 'arrowleft' || key === 'k') {
+        onStep(-1)
+      } else if (key === ' ') {
+        const audio = audioRef.current
+        if (audio) {
+          if (audio.paused) {
+            audio.play().catch((error: unknown) => {
+              log.warn('play:error', {
+                name: error instanceof DOMException ? error.name : 'PlaybackError',
+              })
+            })
+          } else {
+            audio.pause()
+          }
+        }
+      } else if (key in VERDICT_KEYS) {
+        setVerdict(VERDICT_KEYS[key])
+      } else if (/^[1-9]$/.test(key) && presets[Number(key) - 1]) {
+        setReason(presets[Number(key) - 1])
+      } else if (key === 'enter') {
+        void save()
+      } else if (key === 'u') {
+        onJumpToUnreviewed()
+      } else {
+        return
+      }
+      event.preventDefault()
+    }
+  })
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => handleKeyDownRef.current(event)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  return (
+    <section className="review-take">
+      <div className="review-take-header">
+        <p className="review-take-keyword">{take.keywordText ?? originalLabel}</p>
+        <span className={`review-decision is-${gateResult.decision.toLowerCase()}`}>
+          게이트 {DECISION_LABELS[gateResult.decision]}
+        </span>
+      </div>
+      <p className="review-take-meta">
+        라벨 {originalLabel} · 화자 {take.speakerId} ·{' '}
+        {new Date(take.recordedAt).toLocaleString()}
+        {uploadStatus ? ` · ${UPLOAD_STATUS_LABELS[uploadStatus]}` : ''}
+      </p>
+      <p className="review-take-meta">
+        {gateResult.reason} · {gateResult.userMessage} · 프로필 {gateResult.profileId}
+      </p>
+      <p className="review-take-meta">
+        발화 {(gateResult.debugMetrics.speechRatio * 100).toFixed(1)}% · SNR{' '}
+        {gateResult.debugMetrics.snrDb === null
+          ? '-'
+          : `${gateResult.debugMetrics.snrDb.toFixed(1)}dB`}{' '}
+        · rms {gateResult.debugMetrics.rms.toFixed(4)}
+      </p>
+
+      <audio ref={audioRef} controls className="audio-player">
+        브라우저가 오디오 재생을 지원하지 않습니다.
+      </audio>
+
+      {decoded ? (
+        <ClipVisualizer
+          pcm={decoded.pcm}
+          sampleRate={decoded.sampleRate}
+          gateResult={gateResult}
+          gateConfig={gateConfig}
+        />
+      ) : decodeErrorName ? (
+        <p className="review-take-meta">파형을 그릴 수 없는 형식입니다 ({decodeErrorName})</p>
+      ) : null}
+
+      <form className="review-form" onSubmit={handleSubmit}>
+        <div className="review-verdicts" role="radiogroup" aria-label="판정">
+          {Object.values(ReviewVerdict).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={verdict === option}
+              className={`review-verdict ${verdict === option ? 'is-selected' : ''}`}
+              onClick={() => setVerdict(option)}
+            >
+              {VERDICT_LABELS[option]} ({option[0].toUpperCase()})
+            </button>
+          ))}
+        </div>
+
+        {verdict === ReviewVerdict.Relabel && (
+          <label className="review-field">
+            새 라벨
+            <select value={label} onChange={(event) => setLabel(event.target.value)}>
+              {relabelOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {presets.length > 0 && (
+          <div className="review-presets">
+            {presets.map((preset, index) => (
+              <button
+                key={preset}
+                type="button"
+                className={`review-preset ${reason === preset ? 'is-selected' : ''}`}
+                onClick={() => setReason(preset)}
+              >
+                {index + 1}. {preset}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <label className="review-field">
+          사유{needsReason ? ' (필수)' : ''}
+          <input
+            type="text"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="직접 적거나 숫자 키로 고르기"
+          />
+        </label>
+
+        <button type="submit" className="retry-button" disabled={!canSave}>
+          {isSaving ? '저장 중...' : myReview ? '판정 고치고 다음 (Enter)' : '저장하고 다음 (Enter)'}
+        </button>
+      </form>
+
+      {myReview ? (
+        <div className="review-others">
+          <p className="review-others-title">
+            다른 검수자 {otherReviews.length}명
+            {consensus &&
+              ` · 합의 ${consensus.verdict ? VERDICT_LABELS[consensus.verdict] : '동률'}` +
+                ` (${formatPercent(consensus.agreement)})`}
+          </p>
+          <ul className="review-others-list">
+            {otherReviews.map((review) => (
+              <li key={review.id}>
+                {review.reviewerId}: {VERDICT_LABELS[review.verdict]}
+                {review.label ? ` → ${review.label}` : ''}
+                {review.reason ? ` · ${review.reason}` : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        // 먼저 본 사람의 판정에 끌려가지 않도록 내 판정을 낸 뒤에만 보여준다.
+        <p className="review-take-meta">다른 검수자 판정은 내 판정을 저장한 뒤에 보입니다.</p>
+      )}
+    </section>
+  )
+}
+
+/**
+ * 저장된 take를 한 개씩 넘기며 사람이 게이트 판정을 확인하고 고치는 검수 화면. ?mode=review로 연다.
+ * 여러 명이 같은 take를 볼 수 있고, 판정은 게이트 결과 옆에 따로 저장되어 내보내기에 함께 실린다.
+ */
+export const ReviewScreen = () => {
+  const [reviewerId, setReviewerIdState] = useState(getReviewerId)
+  const [reviewerDraft, setReviewerDraft] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportErrorName, setExportErrorName] = useState<string | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importSummary, setImportSummary] = useState<ReviewImportSummary | null>(null)
+  const [importErrorName, setImportErrorName] = useState<string | null>(null)
+  const [allReviewed, setAllReviewed] = useState(false)
+  const {
+    isLoading,
+    errorName,
+    takes,
+    reviews,
+    uploadStatuses,
+    filter,
+    setFilter,
+    queue,
+    current,
+    step,
+    jumpToUnreviewed,
+    submitReview,
+    importReviews,
+  } = useReviewQueue(reviewerId)
+
+  const labelOptions = useMemo(
+    () => [...new Set([...takes.map(toTakeLabel), UNKNOWN_LABEL, SILENCE_LABEL])].sort(),
+    [takes],
+  )
+  const stats = useMemo(
+    () =>
+      computeReviewStats(
+        takes.map((take) => ({
+          id: take.id,
+          label: toTakeLabel(take),
+          gateDecision: take.gateResult.decision,
+        })),
+        reviews,
+      ),
+    [reviews, takes],
+  )
+  const myReviewCount = useMemo(() => {
+    const takeIds = new Set(takes.map((take) => take.id))
+    return reviews.filter(
+      (review) => review.reviewerId === reviewerId && takeIds.has(review.takeId),
+    ).length
+  }, [reviewerId, reviews, takes])
+  const currentReviews = current ? reviews.filter((review) => review.takeId === current.id) : []
+  const myReview = currentReviews.find((review) => review.reviewerId === reviewerId) ?? null
+  const queuePosition = current ? queue.indexOf(current) : -1
+
+  const handleReviewerSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setReviewerIdState(setReviewerId(reviewerDraft))
+  }
+
+  const handleJumpToUnreviewed = () => {
+    setAllReviewed(!jumpToUnreviewed())
+  }
+
+  const handleExportClick = async () => {
+    setIsExporting(true)
+    setExportErrorName(null)
+    try {
+      const zip = await createDatasetZip(takes, { reviews })
+      const dateLabel = new Date().toISOString().slice(0, 10)
+      downloadBlob(zip, `kws-dataset-reviewed-${dateLabel}.zip`)
+    } catch (error) {
+      setExportErrorName(error instanceof DOMException ? error.name : 'ExportError')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleImportChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const input = event.currentTarget
+    const file = input.files?.[0]
+    if (!file) {
+      return
+    }
+    setIsImporting(true)
+    setImportSummary(null)
+    setImportErrorName(null)
+    try {
+      setImportSummary(await importReviews(file))
+    } catch (error) {
+      setImportErrorName(error instanceof DOMException ? error.name : 'ReviewImportError')
+    } finally {
+      setIsImporting(false)
+      // 같은 파일을 고쳐서 다시 고를 수 있게 비운다.
+      input.value = ''
+    }
+  }
+
+  if (!reviewerId) {
+    return (
+      <main className="app">
+        <section className="kws-card">
+          <form className="review-form" onSubmit={handleReviewerSubmit}>
+            <label className="review-field">
+              검수자 이름 (영문 소문자, 숫자, -, _)
+              <input
+                type="text"
+                value={reviewerDraft}
+                onChange={(event) => setReviewerDraft(event.target.value)}
+                autoFocus
+              />
+            </label>
+            <button type="submit" className="retry-button" disabled={!reviewerDraft.trim()}>
+              검수 시작
+            </button>
+          </form>
+        </section>
+      </main>
+    )
+  }
+
+  return (
+    <main className="app">
+      <section className="kws-card review-card">
+        <div className="top-panel">
+          <span className="status-badge">검수자 {reviewerId}</span>
+          <button
+            type="button"
+            className="export-button"
+            onClick={() => setReviewerIdState(setReviewerId(''))}
+          >
+            검수자 바꾸기
+          </button>
+        </div>
+
+        <div className="review-toolbar">
+          <select
+            value={filter}
+            onChange={(event) => setFilter(event.target.value as ReviewFilter)}
+            aria-label="보여줄 take"
+          >
+            {Object.values(ReviewFilter).map((option) => (
+              <option key={option} value={option}>
+                {FILTER_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <span className="progress-label">
+            {queuePosition >= 0 ? queuePosition + 1 : '-'} / {queue.length} · 내가 본 take{' '}
+            {myReviewCount}/{takes.length}
+          </span>
+        </div>
+        <p className="review-shortcuts">
+          ←/→ 또는 K/J 이동 · Space 재생 · A/R/L 판정 · 1~9 사유 · Enter 저장 · U 안 본 take
+        </p>
+
+        {errorName && (
+          <p className="error-code" role="alert">
+            저장소 오류: {errorName}
+          </p>
+        )}
+        {allReviewed && <p className="review-take-meta">안 본 take가 더 없습니다.</p>}
+
+        {isLoading ? (
+          <p className="review-take-meta">불러오는 중...</p>
+        ) : current ? (
+          <TakeReviewPanel
+            key={current.id}
+            take={current}
+            labelOptions={labelOptions}
+            myReview={myReview}
+            otherReviews={currentReviews.filter((review) => review !== myReview)}
+            uploadStatus={uploadStatuses.get(current.id) ?? null}
+            onSubmit={submitReview}
+            onStep={step}
+            onJumpToUnreviewed={handleJumpToUnreviewed}
+          />
+        ) : (
+          <p className="review-take-meta">이 필터에 해당하는 take가 없습니다.</p>
+        )}
+
+        <section className="review-stats">
+          <p className="review-others-title">
+            검수 {stats.reviewCount}건 · 검수자 {stats.reviewerIds.length}명 · take{' '}
+            {stats.reviewedTakeCount}개
+          </p>
+          <dl className="debug-metrics">
+            <div>
+              <dt>검수자 일치율</dt>
+              <dd>
+                {formatPercent(stats.pairwiseAgreement)} (κ{' '}
+                {stats.fleissKappa === null ? '-' : stats.fleissKappa.toFixed(2)}, take{' '}
+                {stats.multiReviewedTakeCount}개)
+              </dd>
+            </div>
+            <div>
+              <dt>게이트 PASS precision</dt>
+              <dd>{formatPercent(stats.gate.precision)}</dd>
+            </div>
+            <div>
+              <dt>게이트 PASS recall</dt>
+              <dd>{formatPercent(stats.gate.recall)}</dd>
+            </div>
+            {(Object.keys(stats.byGateDecision) as GateDecision[]).map((decision) => (
+              <div key={decision}>
+                <dt>게이트 {DECISION_LABELS[decision]} → 사람</dt>
+                <dd>
+                  받아들임 {stats.byGateDecision[decision].accepted} · 버림{' '}
+                  {stats.byGateDecision[decision].rejected}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          <div className="storage-row">
+            <button
+              type="button"
+              className="export-button"
+              onClick={handleExportClick}
+              disabled={isExporting || takes.length === 0}
+            >
+              {isExporting ? '내보내는 중...' : '검수 결과와 함께 내보내기'}
+            </button>
+            <label className="export-button">
+              {isImporting ? '가져오는 중...' : '다른 검수 결과 가져오기'}
+              <input
+                type="file"
+                accept=".csv,.json,.jsonl,text/csv,application/json"
+                onChange={handleImportChange}
+                disabled={isImporting}
+                hidden
+              />
+            </label>
+            <a className="export-button" href={window.location.pathname}>
+              녹음 화면으로
+            </a>
+          </div>
+          {exportErrorName && (
+            <p className="error-code" role="alert">
+              내보내기 실패: {exportErrorName}
+            </p>
+          )}
+          {importErrorName && (
+            <p className="error-code" role="alert">
+              가져오기 실패: {importErrorName}
+            </p>
+          )}
+          {importSummary && (
+            <p className="review-take-meta">
+              검수 {importSummary.importedCount}건을 합쳤습니다 · 이미 있던 판정{' '}
+              {importSummary.skippedCount}건 · 이 브라우저에 없는 take{' '}
+              {importSummary.unknownTakeCount}건
+            </p>
+          )}
+        </section>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,239 @@
+import { useEffect, useRef, useState, type PointerEvent } from 'react'
+import type { WindowEvaluation } from '../hooks/useRecorder'
+import { getWindowOffsetRange } from '../utils/alignment'
+import type { PcmClip } from '../utils/audioUtils'
+
+type WindowEditorProps = {
+  source: PcmClip
+  windowSamples: number
+  initialOffsetSamples: number
+  // 자동 정렬이 처음 골랐던 위치. "자동 위치로" 버튼이 여기로 돌아간다.
+  autoOffsetSamples: number
+  evaluate: (offsetSamples: number) => WindowEvaluation | null
+  onSave: (evaluation: WindowEvaluation) => void
+}
+
+type Preview = {
+  offsetSamples: number
+  evaluation: WindowEvaluation
+  url: string
+}
+
+const OVERVIEW_HEIGHT = 64
+const SLIDER_STEP_MS = 10
+// 끌거나 슬라이더를 움직이는 동안 매번 인코딩/판정하지 않도록 멈춘 뒤에 다시 판정한다.
+const EVALUATE_DELAY_MS = 150
+
+const DECISION_LABELS: Record<WindowEvaluation['gateResult']['decision'], string> = {
+  PASS: '통과',
+  AMBIG: '애매',
+  REJECT: '거절',
+}
+
+const drawOverview = (
+  canvas: HTMLCanvasElement,
+  pcm: Float32Array,
+  offsetSamples: number,
+  windowSamples: number,
+) => {
+  const context = canvas.getContext('2d')
+  if (!context) {
+    return
+  }
+  const width = Math.max(1, canvas.clientWidth)
+  const dpr = window.devicePixelRatio || 1
+  canvas.width = Math.round(width * dpr)
+  canvas.height = Math.round(OVERVIEW_HEIGHT * dpr)
+  context.setTransform(dpr, 0, 0, dpr, 0, 0)
+
+  // 창이 원본 밖(0 채움)으로 나갈 수 있어서 둘을 합친 구간을 가로축으로 쓴다.
+  const timelineStart = Math.min(0, offsetSamples)
+  const timelineEnd = Math.max(pcm.length, offsetSamples + windowSamples)
+  const toX = (sample: number) => ((sample - timelineStart) / (timelineEnd - timelineStart)) * width
+  const middle = OVERVIEW_HEIGHT / 2
+
+  context.fillStyle = '#f7fff9'
+  context.fillRect(0, 0, width, OVERVIEW_HEIGHT)
+  context.fillStyle = '#2d7d4a'
+  const samplesPerColumn = (timelineEnd - timelineStart) / width
+  for (let column = 0; column < width; column += 1) {
+    const start = Math.max(0, Math.floor(timelineStart + column * samplesPerColumn))
+    const end = Math.min(pcm.length, Math.floor(timelineStart + (column + 1) * samplesPerColumn))
+    let peak = 0
+    for (let index = start; index < end; index += 1) {
+      peak = Math.max(peak, Math.abs(pcm[index]))
+    }
+    const height = Math.max(1, peak * (middle - 2) * 2)
+    context.fillRect(column, middle - height / 2, 1, height)
+  }
+
+  // 창 밖은 어둡게, 창 테두리는 진하게.
+  const windowStartX = toX(offsetSamples)
+  const windowEndX = toX(offsetSamples + windowSamples)
+  context.fillStyle = 'rgba(31, 85, 52, 0.35)'
+  context.fillRect(0, 0, windowStartX, OVERVIEW_HEIGHT)
+  context.fillRect(windowEndX, 0, width - windowEndX, OVERVIEW_HEIGHT)
+  context.strokeStyle = '#12633d'
+  context.lineWidth = 2
+  context.strokeRect(
+    windowStartX + 1,
+    1,
+    Math.max(1, windowEndX - windowStartX - 2),
+    OVERVIEW_HEIGHT - 2,
+  )
+}
+
+/**
+ * 고정 길이 창을 더 긴 원본 녹음 위에서 끌어 옮기고, 옮긴 창을 미리 듣고 다시 판정한 뒤 새 take로 저장한다.
+ * 게이트가 SpeechOffCenter라고 했지만 소리는 괜찮을 때 다시 말하지 않고 살릴 수 있다.
+ */
+export const WindowEditor = ({
+  source,
+  windowSamples,
+  initialOffsetSamples,
+  autoOffsetSamples,
+  evaluate,
+  onSave,
+}: WindowEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const dragRef = useRef<{ pointerX: number; offsetSamples: number } | null>(null)
+  const previewUrlRef = useRef<string | null>(null)
+  const [offsetSamples, setOffsetSamples] = useState(initialOffsetSamples)
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const range = getWindowOffsetRange(source.pcm.length, windowSamples)
+  const sampleRate = source.sampleRate
+  const stepSamples = Math.max(1, Math.round((SLIDER_STEP_MS * sampleRate) / 1000))
+  const toMs = (samples: number) => Math.round((samples / sampleRate) * 1000)
+  const isPending = preview?.offsetSamples !== offsetSamples
+  const verdict = preview?.evaluation.gateResult ?? null
+
+  const moveTo = (next: number) => {
+    setOffsetSamples(Math.min(range.max, Math.max(range.min, Math.round(next))))
+  }
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) {
+      return
+    }
+    const draw = () => drawOverview(canvas, source.pcm, offsetSamples, windowSamples)
+    draw()
+    if (typeof ResizeObserver === 'undefined') {
+      return
+    }
+    const observer = new ResizeObserver(draw)
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [offsetSamples, source.pcm, windowSamples])
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      const evaluation = evaluate(offsetSamples)
+      if (!evaluation) {
+        return
+      }
+      if (previewUrlRef.current) {
+        URL.revokeObjectURL(previewUrlRef.current)
+      }
+      const url = URL.createObjectURL(evaluation.clip.blob)
+      previewUrlRef.current = url
+      setPreview({ offsetSamples, evaluation, url })
+    }, EVALUATE_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [evaluate, offsetSamples])
+
+  useEffect(
+    () => () => {
+      if (previewUrlRef.current) {
+        URL.revokeObjectURL(previewUrlRef.current)
+      }
+    },
+    [],
+  )
+
+  const samplesPerPixel = () => {
+    const width = canvasRef.current?.clientWidth ?? 1
+    const timelineLength =
+      Math.max(source.pcm.length, offsetSamples + windowSamples) - Math.min(0, offsetSamples)
+    return timelineLength / Math.max(1, width)
+  }
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { pointerX: event.clientX, offsetSamples }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current
+    if (!drag) {
+      return
+    }
+    moveTo(drag.offsetSamples + (event.clientX - drag.pointerX) * samplesPerPixel())
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  return (
+    <div className="window-editor">
+      <p className="window-editor-title">구간 직접 맞추기</p>
+      <canvas
+        ref={canvasRef}
+        className="window-editor-canvas"
+        style={{ height: OVERVIEW_HEIGHT }}
+        aria-label="전체 녹음과 잘라낼 구간"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+      <input
+        type="range"
+        className="window-editor-slider"
+        min={range.min}
+        max={range.max}
+        step={stepSamples}
+        value={offsetSamples}
+        onChange={(event) => moveTo(Number(event.target.value))}
+        aria-label="구간 시작 위치"
+      />
+      <p className="window-editor-meta">
+        시작 {toMs(offsetSamples)}ms (자동 {toMs(autoOffsetSamples)}ms) · 전체{' '}
+        {toMs(source.pcm.length)}ms
+      </p>
+
+      {preview && verdict && (
+        <>
+          <audio controls src={preview.url} className="audio-player">
+            브라우저가 오디오 재생을 지원하지 않습니다.
+          </audio>
+          <p className={`window-editor-verdict is-${verdict.decision.toLowerCase()}`}>
+            {isPending
+              ? '다시 판정하는 중...'
+              : `${DECISION_LABELS[verdict.decision]} · ${verdict.reason} · ${verdict.userMessage}`}
+          </p>
+        </>
+      )}
+
+      <div className="window-editor-actions">
+        <button
+          type="button"
+          className="retry-button"
+          onClick={() => moveTo(autoOffsetSamples)}
+          disabled={offsetSamples === autoOffsetSamples}
+        >
+          자동 위치로
+        </button>
+        <button
+          type="button"
+          className="retry-button"
+          onClick={() => preview && onSave(preview.evaluation)}
+          disabled={!preview || isPending}
+        >
+          이 구간으로 저장
+        </button>
+      </div>
+    </div>
+  )
+}
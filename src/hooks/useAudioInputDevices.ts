@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react'
+import { createLogger } from '../utils/eventLog'
+
+export type AudioInputDevice = {
+  deviceId: string
+  // 권한을 받기 전에는 브라우저가 이름을 숨겨서 빈 문자열일 수 있다.
+  label: string
+}
+
+type UseAudioInputDevicesResult = {
+  isSupported: boolean
+  devices: AudioInputDevice[]
+}
+
+const log = createLogger('useAudioInputDevices')
+
+const isEnumerateSupported = () =>
+  typeof navigator !== 'undefined' && typeof navigator.mediaDevices?.enumerateDevices === 'function'
+
+const listAudioInputs = async (): Promise<AudioInputDevice[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return (
+    devices
+      // Chrome의 'default' 항목은 실제 장치 하나를 가리키는 별칭이라 "기본 장치" 선택지와 겹친다.
+      .filter(
+        (device) =>
+          device.kind === 'audioinput' && device.deviceId !== '' && device.deviceId !== 'default',
+      )
+      .map((device) => ({ deviceId: device.deviceId, label: device.label }))
+  )
+}
+
+/**
+ * 마이크 입력 장치 목록. 장치를 꽂거나 빼면(devicechange) 다시 읽는다.
+ * stream이 바뀔 때도 다시 읽는다. 권한을 받은 뒤에야 장치 이름이 보이기 때문이다.
+ * 고른 장치는 상위 state로 두고 녹음 훅에 넘긴다.
+ */
+export const useAudioInputDevices = (stream: MediaStream | null): UseAudioInputDevicesResult => {
+  const [isSupported] = useState(isEnumerateSupported)
+  const [devices, setDevices] = useState<AudioInputDevice[]>([])
+
+  useEffect(() => {
+    if (!isSupported) {
+      return
+    }
+    let cancelled = false
+    const refresh = () => {
+      listAudioInputs()
+        .then((listed) => {
+          if (!cancelled) {
+            log.info('refresh', { count: listed.length })
+            setDevices(listed)
+          }
+        })
+        .catch((error: unknown) => {
+          log.error('refresh:error', {
+            name: error instanceof DOMException ? error.name : 'UnknownError',
+          })
+        })
+    }
+    refresh()
+    navigator.mediaDevices.addEventListener('devicechange', refresh)
+    return () => {
+      cancelled = true
+      navigator.mediaDevices.removeEventListener('devicechange', refresh)
+    }
+  }, [isSupported, stream])
+
+  return { isSupported, devices }
+}
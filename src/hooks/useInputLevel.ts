@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react'
+import { DEFAULT_GATE_CONFIG, type GateConfig } from '../utils/gateConfig'
+
+export const LevelWarning = {
+  TooQuiet: 'TooQuiet',
+  Clipping: 'Clipping',
+} as const
+
+export type LevelWarning = (typeof LevelWarning)[keyof typeof LevelWarning]
+
+export type InputLevel = {
+  rms: number
+  peak: number
+  peakHold: number
+  warning: LevelWarning | null
+}
+
+type UseInputLevelOptions = {
+  enabled: boolean
+  // true인 동안의 누적 통계로 경고를 낸다. false -> true 로 바뀔 때 누적값을 초기화한다.
+  measuring: boolean
+  gateConfig?: GateConfig
+}
+
+const ANALYSER_FFT_SIZE = 2048
+const UPDATE_INTERVAL_MS = 66
+const PEAK_HOLD_MS = 1000
+// 말 시작 전 무음만 보고 "작아요"를 띄우지 않도록 조금 기다린다.
+const QUIET_WARNING_DELAY_MS = 800
+
+const EMPTY_LEVEL: InputLevel = { rms: 0, peak: 0, peakHold: 0, warning: null }
+
+/**
+ * 이미 열린 마이크 stream을 AnalyserNode로 들여다보며 실시간 레벨을 계산한다.
+ * 경고 기준은 게이트와 같은 gateConfig 값이라, 녹음 후 판정과 어긋나지 않는다.
+ */
+export const useInputLevel = (
+  stream: MediaStream | null,
+  options: UseInputLevelOptions,
+): InputLevel => {
+  const { enabled, measuring } = options
+  const { clipLevel, clipRatioThreshold, tooQuietRmsThreshold } =
+    options.gateConfig ?? DEFAULT_GATE_CONFIG
+  const [level, setLevel] = useState<InputLevel>(EMPTY_LEVEL)
+  const measuringRef = useRef(measuring)
+
+  useEffect(() => {
+    measuringRef.current = measuring
+  }, [measuring])
+
+  useEffect(() => {
+    if (!stream || !enabled || typeof window.AudioContext === 'undefined') {
+      return
+    }
+
+    const audioContext = new AudioContext()
+    const source = audioContext.createMediaStreamSource(stream)
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = ANALYSER_FFT_SIZE
+    source.connect(analyser)
+    const samples = new Float32Array(analyser.fftSize)
+
+    let frameId = 0
+    let lastUpdateAt = 0
+    let peakHold = 0
+    let peakHoldAt = 0
+    let wasMeasuring = false
+    let measureStartedAt = 0
+    let sumSquares = 0
+    let sampleCount = 0
+    let clippedCount = 0
+
+    const tick = (now: number) => {
+      frameId = window.requestAnimationFrame(tick)
+      if (now - lastUpdateAt < UPDATE_INTERVAL_MS) {
+        return
+      }
+      lastUpdateAt = now
+
+      analyser.getFloatTimeDomainData(samples)
+      let frameSquares = 0
+      let peak = 0
+      let frameClipped = 0
+      for (let index = 0; index < samples.length; index += 1) {
+        const absSample = Math.abs(samples[index])
+        frameSquares += samples[index] * samples[index]
+        if (absSample > peak) {
+          peak = absSample
+        }
+        if (absSample > clipLevel) {
+          frameClipped += 1
+        }
+      }
+      const rms = Math.sqrt(frameSquares / samples.length)
+
+      if (peak >= peakHold || now - peakHoldAt > PEAK_HOLD_MS) {
+        peakHold = peak
+        peakHoldAt = now
+      }
+
+      const isMeasuring = measuringRef.current
+      if (isMeasuring && !wasMeasuring) {
+        measureStartedAt = now
+        sumSquares = 0
+        sampleCount = 0
+        clippedCount = 0
+      }
+      wasMeasuring = isMeasuring
+
+      let warning: LevelWarning | null = null
+      if (isMeasuring) {
+        // 분석 창이 겹쳐서 같은 샘플을 여러 번 셀 수 있지만 비율 계산에는 영향이 적다.
+        sumSquares += frameSquares
+        sampleCount += samples.length
+        clippedCount += frameClipped
+        const takeRms = Math.sqrt(sumSquares / sampleCount)
+        if (clippedCount / sampleCount > clipRatioThreshold) {
+          warning = LevelWarning.Clipping
+        } else if (
+          now - measureStartedAt > QUIET_WARNING_DELAY_MS &&
+          takeRms < tooQuietRmsThreshold
+        ) {
+          warning = LevelWarning.TooQuiet
+        }
+      }
+
+      setLevel({ rms, peak, peakHold, warning })
+    }
+
+    frameId = window.requestAnimationFrame(tick)
+
+    return () => {
+      window.cancelAnimationFrame(frameId)
+      source.disconnect()
+      void audioContext.close()
+      setLevel(EMPTY_LEVEL)
+    }
+  }, [clipLevel, clipRatioThreshold, enabled, stream, tooQuietRmsThreshold])
+
+  return level
+}
@@ -0,0 +1,149 @@
+import { useCallback, useMemo, useState } from 'react'
+import {
+  buildSessionPlan,
+  drawFillerPrompts,
+  type KeywordCatalog,
+  type KeywordEntry,
+} from '../utils/keywordCatalog'
+import { createTakeId, type StoredSession } from '../utils/takeStore'
+
+export type KeywordProgress = {
+  keyword: KeywordEntry
+  accepted: number
+  target: number
+}
+
+export type KeywordSessionSnapshot = Omit<StoredSession, 'updatedAt'>
+
+type UseKeywordSessionResult = {
+  sessionId: string | null
+  snapshot: KeywordSessionSnapshot | null
+  // 필러 슬롯이면 text/romanization이 이번 슬롯에 뽑힌 문장으로 바뀌어 있다.
+  currentKeyword: KeywordEntry | null
+  progress: KeywordProgress[]
+  acceptedCount: number
+  totalCount: number
+  isComplete: boolean
+  isResumed: boolean
+  markAccepted: (keywordId: string) => void
+  restart: () => void
+}
+
+const createSeed = () => Math.floor(Math.random() * 0xffffffff)
+
+const createSnapshot = (catalog: KeywordCatalog | null): KeywordSessionSnapshot | null => {
+  if (!catalog) {
+    return null
+  }
+  const plan = buildSessionPlan(catalog, createSeed())
+  return {
+    id: createTakeId(),
+    keywordIds: catalog.keywords.map((keyword) => keyword.id),
+    plan,
+    fillerPrompts: drawFillerPrompts(catalog, plan, createSeed()),
+    cursor: 0,
+    createdAt: Date.now(),
+  }
+}
+
+// 저장된 세션이 지금 카탈로그와 같은 키워드 구성일 때만 이어서 진행한다.
+const canResume = (catalog: KeywordCatalog, resumeFrom: KeywordSessionSnapshot): boolean => {
+  const catalogIds = new Set(catalog.keywords.map((keyword) => keyword.id))
+  return (
+    resumeFrom.keywordIds.length === catalogIds.size &&
+    resumeFrom.keywordIds.every((id) => catalogIds.has(id)) &&
+    resumeFrom.plan.every((id) => catalogIds.has(id)) &&
+    resumeFrom.cursor < resumeFrom.plan.length
+  )
+}
+
+const initSnapshot = (
+  catalog: KeywordCatalog | null,
+  resumeFrom: KeywordSessionSnapshot | null,
+): { snapshot: KeywordSessionSnapshot | null; isResumed: boolean } => {
+  if (catalog && resumeFrom && canResume(catalog, resumeFrom)) {
+    const hasFillerPrompts = resumeFrom.fillerPrompts?.length === resumeFrom.plan.length
+    return {
+      snapshot: hasFillerPrompts
+        ? resumeFrom
+        : {
+            ...resumeFrom,
+            fillerPrompts: drawFillerPrompts(catalog, resumeFrom.plan, createSeed()),
+          },
+      isResumed: true,
+    }
+  }
+  return { snapshot: createSnapshot(catalog), isResumed: false }
+}
+
+export const useKeywordSession = (
+  catalog: KeywordCatalog | null,
+  resumeFrom: KeywordSessionSnapshot | null = null,
+): UseKeywordSessionResult => {
+  const [sessionCatalog, setSessionCatalog] = useState(catalog)
+  const [session, setSession] = useState(() => initSnapshot(catalog, resumeFrom))
+
+  // 카탈로그가 (비동기 로드 등으로) 바뀌면 세션 계획을 새로 만들거나 저장본에서 복구한다.
+  if (sessionCatalog !== catalog) {
+    setSessionCatalog(catalog)
+    setSession(initSnapshot(catalog, resumeFrom))
+  }
+
+  const { snapshot, isResumed } = session
+  const plan = useMemo(() => snapshot?.plan ?? [], [snapshot])
+  const cursor = snapshot?.cursor ?? 0
+
+  const keywordById = useMemo(
+    () => new Map((catalog?.keywords ?? []).map((keyword) => [keyword.id, keyword])),
+    [catalog],
+  )
+
+  const slotKeyword = cursor < plan.length ? (keywordById.get(plan[cursor]) ?? null) : null
+  const fillerPrompt = snapshot?.fillerPrompts?.[cursor] ?? null
+  const currentKeyword = useMemo(
+    () =>
+      slotKeyword && fillerPrompt
+        ? { ...slotKeyword, text: fillerPrompt.text, romanization: fillerPrompt.romanization }
+        : slotKeyword,
+    [fillerPrompt, slotKeyword],
+  )
+
+  const progress = useMemo<KeywordProgress[]>(() => {
+    const acceptedById = new Map<string, number>()
+    for (const id of plan.slice(0, cursor)) {
+      acceptedById.set(id, (acceptedById.get(id) ?? 0) + 1)
+    }
+    return (catalog?.keywords ?? []).map((keyword) => ({
+      keyword,
+      accepted: acceptedById.get(keyword.id) ?? 0,
+      target: keyword.targetTakes,
+    }))
+  }, [catalog, plan, cursor])
+
+  // PASS 된 take만 세션을 앞으로 진행시킨다. 늦게 도착한 결과(다른 키워드)는 무시한다.
+  const markAccepted = useCallback((keywordId: string) => {
+    setSession((prev) => {
+      if (!prev.snapshot || prev.snapshot.plan[prev.snapshot.cursor] !== keywordId) {
+        return prev
+      }
+      return { ...prev, snapshot: { ...prev.snapshot, cursor: prev.snapshot.cursor + 1 } }
+    })
+  }, [])
+
+  const restart = useCallback(() => {
+    setSession({ snapshot: createSnapshot(catalog), isResumed: false })
+  }, [catalog])
+
+  return {
+    sessionId: snapshot?.id ?? null,
+    snapshot,
+    currentKeyword,
+    progress,
+    acceptedCount: Math.min(cursor, plan.length),
+    totalCount: plan.length,
+    isComplete: plan.length > 0 && cursor >= plan.length,
+    isResumed,
+    markAccepted,
+    restart,
+  }
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createLogger } from '../utils/eventLog'
+import type { NoiseCalibration } from '../utils/gate'
+
+export const CalibrationStatus = {
+  Idle: 'Idle',
+  Measuring: 'Measuring',
+  Done: 'Done',
+  Failed: 'Failed',
+} as const
+
+export type CalibrationStatus = (typeof CalibrationStatus)[keyof typeof CalibrationStatus]
+
+type UseNoiseCalibrationOptions = {
+  // 녹음 중에는 재지 않는다. 측정 중에 false가 되면 다음에 true가 될 때 처음부터 다시 잰다.
+  enabled: boolean
+  // 녹음 훅이 stream을 만들기 때문에 결과는 상위 state로 올려서 녹음 훅에 다시 넘긴다.
+  onCalibrated: (calibration: NoiseCalibration) => void
+}
+
+type UseNoiseCalibrationResult = {
+  status: CalibrationStatus
+  calibrate: () => void
+}
+
+const CALIBRATION_MS = 1500
+const ANALYSER_FFT_SIZE = 1024
+const POLL_INTERVAL_MS = 20
+// 측정 중 잠깐 말소리/기침이 섞여도 중앙값이라 크게 흔들리지 않는다.
+const NOISE_PERCENTILE = 0.5
+const MIN_FRAME_COUNT = 10
+
+const log = createLogger('useNoiseCalibration')
+
+/**
+ * 첫 take 전에 라이브 stream에서 잠깐 주변 소음을 재서 게이트가 소음 바닥을 기준으로 판정하게 한다.
+ * stream이 새로 열리면 자동으로 한 번 재고, calibrate()로 다시 잴 수 있다.
+ */
+export const useNoiseCalibration = (
+  stream: MediaStream | null,
+  options: UseNoiseCalibrationOptions,
+): UseNoiseCalibrationResult => {
+  const { enabled } = options
+  const [status, setStatus] = useState<CalibrationStatus>(CalibrationStatus.Idle)
+  const onCalibratedRef = useRef(options.onCalibrated)
+  // 같은 stream이면 다시 재지 않는다. calibrate()는 이 값을 비워서 재측정을 건다.
+  const [measuredStream, setMeasuredStream] = useState<MediaStream | null>(null)
+
+  useEffect(() => {
+    onCalibratedRef.current = options.onCalibrated
+  }, [options.onCalibrated])
+
+  const calibrate = useCallback(() => {
+    setMeasuredStream(null)
+  }, [])
+
+  useEffect(() => {
+    if (!stream || !enabled || stream === measuredStream || typeof window.AudioContext === 'undefined') {
+      return
+    }
+
+    const audioContext = new AudioContext()
+    const source = audioContext.createMediaStreamSource(stream)
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = ANALYSER_FFT_SIZE
+    source.connect(analyser)
+    const samples = new Float32Array(analyser.fftSize)
+    const frameRmsValues: number[] = []
+    const startedAt = Date.now()
+
+    const pollId = window.setInterval(() => {
+      analyser.getFloatTimeDomainData(samples)
+      let squares = 0
+      for (let index = 0; index < samples.length; index += 1) {
+        squares += samples[index] * samples[index]
+      }
+      frameRmsValues.push(Math.sqrt(squares / samples.length))
+    }, POLL_INTERVAL_MS)
+
+    const finishId = window.setTimeout(() => {
+      window.clearInterval(pollId)
+      setMeasuredStream(stream)
+      if (frameRmsValues.length < MIN_FRAME_COUNT) {
+        log.warn('failed', { frameCount: frameRmsValues.length })
+        setStatus(CalibrationStatus.Failed)
+        return
+      }
+      const sorted = [...frameRmsValues].sort((a, b) => a - b)
+      const noiseFloorRms = sorted[Math.floor(sorted.length * NOISE_PERCENTILE)]
+      log.info('done', { noiseFloorRms, frameCount: sorted.length })
+      setStatus(CalibrationStatus.Done)
+      onCalibratedRef.current({
+        noiseFloorRms,
+        measuredAt: Date.now(),
+        durationMs: Date.now() - startedAt,
+      })
+    }, CALIBRATION_MS)
+
+    void audioContext.resume()
+    log.info('start', { calibrationMs: CALIBRATION_MS })
+    const measuringId = window.setTimeout(() => setStatus(CalibrationStatus.Measuring), 0)
+
+    return () => {
+      window.clearTimeout(measuringId)
+      window.clearInterval(pollId)
+      window.clearTimeout(finishId)
+      source.disconnect()
+      void audioContext.close()
+    }
+  }, [enabled, measuredStream, stream])
+
+  return { status, calibrate }
+}
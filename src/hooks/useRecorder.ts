@@ -1,6 +1,43 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { convertBlobTo16kMonoWav } from '../utils/audioUtils'
-import { analyzePcmForSpeechGate, type GateResult } from '../utils/gate'
+import type { SpeechAlignment } from '../utils/alignment'
+import {
+  convertBlobToClip,
+  convertPcmToClip,
+  convertWindowToClip,
+  type ClipConversionResult,
+  type PcmClip,
+} from '../utils/audioUtils'
+import {
+  buildAudioConstraints,
+  DEFAULT_CAPTURE_PROFILE,
+  readCaptureSettings,
+  type CaptureProfile,
+  type CaptureSettings,
+} from '../utils/captureProfile'
+import { collectDeviceInfo, RECORDER_MIME_CANDIDATES, type DeviceInfo } from '../utils/deviceInfo'
+import { createLogger } from '../utils/eventLog'
+import {
+  computeFingerprint,
+  findMostSimilarTake,
+  type AcousticFingerprint,
+  type FingerprintCandidate,
+} from '../utils/fingerprint'
+import {
+  analyzePcmForSpeechGate,
+  resolveSpeechFrameThreshold,
+  type GateResult,
+  type NoiseCalibration,
+} from '../utils/gate'
+import { DEFAULT_GATE_CONFIG, type GateConfig } from '../utils/gateConfig'
+import type { KeywordEntry } from '../utils/keywordCatalog'
+import { MissionKind } from '../utils/mission'
+import { DEFAULT_OUTPUT_SPEC, type OutputSpec } from '../utils/outputSpec'
+import {
+  createPcmCapture,
+  isAudioWorkletSupported,
+  PCM_SOURCE_MIME_TYPE,
+  type PcmCapture,
+} from '../utils/pcmCapture'
 
 export const RecorderStatus = {
   Idle: 'Idle',
@@ -11,30 +48,95 @@ export const RecorderStatus = {
   Result: 'Result',
   DurationRejected: 'DurationRejected',
   MicDenied: 'MicDenied',
+  // 쓰던 마이크 track이 끝났다(헤드셋을 뺌 등). 다시 연결하면 이어서 할 수 있다.
+  DeviceLost: 'DeviceLost',
   Unsupported: 'Unsupported',
   Error: 'Error',
 } as const
 
 export type RecorderStatus = (typeof RecorderStatus)[keyof typeof RecorderStatus]
 
+export const CaptureBackend = {
+  MediaRecorder: 'mediaRecorder',
+  AudioWorklet: 'audioWorklet',
+} as const
+
+export type CaptureBackend = (typeof CaptureBackend)[keyof typeof CaptureBackend]
+
+export type RecordedTake = {
+  keyword: KeywordEntry | null
+  blob: Blob
+  gateResult: GateResult
+  durationMs: number
+  sampleRate: number
+  alignment: SpeechAlignment
+  preRollMs: number
+  sourceMimeType: string
+  recordedAt: number
+  device: DeviceInfo
+  fingerprint: AcousticFingerprint
+  outputSpec: OutputSpec
+}
+
+// 창 위치를 옮긴 클립을 다시 판정한 결과. 저장하기 전에 미리 듣고 판정을 볼 수 있다.
+export type WindowEvaluation = {
+  clip: ClipConversionResult
+  gateResult: GateResult
+  fingerprint: AcousticFingerprint
+}
+
 type UseRecorderOptions = {
-  maxDurationMs?: number
+  // 녹음 시간 = 최종 클립 길이(outputSpec.durationMs). 변환/게이트도 같은 형식을 따른다.
+  outputSpec?: OutputSpec
+  // 최종 창보다 조금 더 길게 녹음해 두면 발화 위치에 맞춰 창을 나중에 고를 수 있다.
+  captureMarginMs?: number
+  // 창 정렬 패딩/발화 프레임 기준도 이 설정을 따른다.
+  gateConfig?: GateConfig
+  // 녹음 전에 잰 주변 소음. 있으면 발화 프레임 기준을 소음 바닥에 맞춘다.
+  noiseCalibration?: NoiseCalibration | null
+  // 새 take 지문을 비교할 이전 take들(같은 화자).
+  duplicateCandidates?: FingerprintCandidate[]
+  // 마이크가 준비된 동안 최근 preRollMs를 계속 버퍼링해 두고 take 앞에 붙인다. 0이면 끈다.
+  preRollMs?: number
+  // auto: MediaRecorder가 있으면 그걸 쓰고, 없으면 AudioWorklet PCM 경로로 녹음한다.
+  captureBackend?: CaptureBackend | 'auto'
+  // 열 입력 장치. null이면 브라우저 기본 장치. 도중에 바꾸려면 switchInputDevice를 쓴다.
+  inputDeviceId?: string | null
+  // 마이크를 열 때 요청할 음성 처리. 바꾸면 다음에 마이크를 열 때부터 적용된다.
+  captureProfile?: CaptureProfile
+  onTakeComplete?: (take: RecordedTake) => void
 }
 
-const MIME_CANDIDATES = [
-  'audio/webm;codecs=opus',
-  'audio/webm',
-  'audio/mp4',
-  'audio/ogg;codecs=opus',
-] as const
 const MIC_REQUEST_TIMEOUT_MS = 30000
 
+// 기억해 둔 장치가 빠져 있으면(OverconstrainedError/NotFoundError) 기본 장치로 다시 연다.
+const openMicStream = async (
+  deviceId: string | null,
+  profile: CaptureProfile,
+): Promise<MediaStream> => {
+  if (!deviceId) {
+    return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(profile, null) })
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: buildAudioConstraints(profile, deviceId),
+    })
+  } catch (error) {
+    const name = error instanceof DOMException ? error.name : 'UnknownError'
+    if (name !== 'OverconstrainedError' && name !== 'NotFoundError') {
+      throw error
+    }
+    log.warn('requestMicAccess:device_fallback', { name })
+    return navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(profile, null) })
+  }
+}
+
 const pickSupportedMimeType = () => {
   if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) {
     return null
   }
 
-  for (const mimeType of MIME_CANDIDATES) {
+  for (const mimeType of RECORDER_MIME_CANDIDATES) {
     if (MediaRecorder.isTypeSupported(mimeType)) {
       return mimeType
     }
@@ -42,10 +144,24 @@ const pickSupportedMimeType = () => {
   return null
 }
 
-const log = (...args: unknown[]) => {
-  console.log('[useRecorder]', ...args)
+const resolveCaptureBackend = (preference: CaptureBackend | 'auto'): CaptureBackend | null => {
+  const hasMediaRecorder = typeof MediaRecorder !== 'undefined'
+  const hasAudioWorklet = isAudioWorkletSupported()
+
+  if (preference === CaptureBackend.MediaRecorder) {
+    return hasMediaRecorder ? CaptureBackend.MediaRecorder : null
+  }
+  if (preference === CaptureBackend.AudioWorklet) {
+    return hasAudioWorklet ? CaptureBackend.AudioWorklet : null
+  }
+  if (hasMediaRecorder) {
+    return CaptureBackend.MediaRecorder
+  }
+  return hasAudioWorklet ? CaptureBackend.AudioWorklet : null
 }
 
+const log = createLogger('useRecorder')
+
 type UseRecorderResult = {
   status: RecorderStatus
   stream: MediaStream | null
@@ -55,16 +171,39 @@ type UseRecorderResult = {
   elapsedMs: number
   measuredDurationMs: number | null
   gateResult: GateResult | null
+  alignment: SpeechAlignment | null
+  keyword: KeywordEntry | null
+  captureBackend: CaptureBackend | null
   mimeType: string | null
-  outputSampleRate: number | null
+  // 지금 열린 마이크의 음성 처리 요청/적용 결과. ignored가 있으면 브라우저가 요청을 무시한 것.
+  captureSettings: CaptureSettings | null
+  // 마지막 take가 실제로 변환된 출력 형식.
+  clipSpec: OutputSpec | null
+  // 마지막 take의 변환된 PCM(파형/스펙트로그램 보기용).
+  clipPcm: PcmClip | null
+  // 창을 고르기 전 전체 녹음(출력 샘플레이트). 창 위치를 직접 옮길 때 쓴다.
+  clipSource: PcmClip | null
   maxDurationMs: number
   requestMicAccess: () => Promise<MediaStream | null>
-  startRecording: () => Promise<void>
+  // 다른 입력 장치로 stream을 바꾼다. 녹음/변환 중에는 무시한다.
+  switchInputDevice: (deviceId: string | null) => Promise<MediaStream | null>
+  startRecording: (keyword?: KeywordEntry | null) => Promise<void>
   retry: () => Promise<void>
+  // 마지막 take를 offsetSamples 위치의 창으로 다시 잘라 판정만 한다(저장하지 않음).
+  evaluateWindow: (offsetSamples: number) => WindowEvaluation | null
+  // 다시 판정한 창을 새 take로 확정한다. onTakeComplete가 다시 불린다.
+  acceptWindow: (evaluation: WindowEvaluation) => void
 }
 
 export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult => {
-  const maxDurationMs = options?.maxDurationMs ?? 2000
+  const outputSpec = options?.outputSpec ?? DEFAULT_OUTPUT_SPEC
+  const maxDurationMs = outputSpec.durationMs
+  const captureDurationMs = maxDurationMs + Math.max(0, options?.captureMarginMs ?? 0)
+  const gateConfig = options?.gateConfig ?? DEFAULT_GATE_CONFIG
+  const noiseCalibration = options?.noiseCalibration ?? null
+  const speechFrameThreshold = resolveSpeechFrameThreshold(gateConfig, noiseCalibration)
+  const captureBackendPreference = options?.captureBackend ?? 'auto'
+  const preRollMs = Math.max(0, options?.preRollMs ?? 0)
 
   const [status, setStatus] = useState<RecorderStatus>(RecorderStatus.Idle)
   const [stream, setStream] = useState<MediaStream | null>(null)
@@ -74,9 +213,18 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
   const [elapsedMs, setElapsedMs] = useState(0)
   const [measuredDurationMs, setMeasuredDurationMs] = useState<number | null>(null)
   const [gateResult, setGateResult] = useState<GateResult | null>(null)
-  const [outputSampleRate, setOutputSampleRate] = useState<number | null>(null)
+  const [alignment, setAlignment] = useState<SpeechAlignment | null>(null)
+  const [clipSpec, setClipSpec] = useState<OutputSpec | null>(null)
+  const [clipPcm, setClipPcm] = useState<PcmClip | null>(null)
+  const [clipSource, setClipSource] = useState<PcmClip | null>(null)
+  const [keyword, setKeyword] = useState<KeywordEntry | null>(null)
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings | null>(null)
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
+  const pcmCaptureRef = useRef<{ stream: MediaStream; capture: Promise<PcmCapture> } | null>(
+    null,
+  )
+  const pcmCapturingRef = useRef(false)
   const chunksRef = useRef<Blob[]>([])
   const timerRef = useRef<number | null>(null)
   const autoStopRef = useRef<number | null>(null)
@@ -85,7 +233,29 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
   const lastMicRequestFailureRef = useRef<string | null>(null)
   const mountedRef = useRef(true)
   const streamRef = useRef<MediaStream | null>(null)
-  const mimeType = useMemo(pickSupportedMimeType, [])
+  const keywordRef = useRef<KeywordEntry | null>(null)
+  const onTakeCompleteRef = useRef(options?.onTakeComplete)
+  const duplicateCandidatesRef = useRef(options?.duplicateCandidates ?? [])
+  const inputDeviceIdRef = useRef(options?.inputDeviceId ?? null)
+  const captureProfileRef = useRef(options?.captureProfile ?? DEFAULT_CAPTURE_PROFILE)
+  const captureSettingsRef = useRef<CaptureSettings | null>(null)
+  const lastTakeRef = useRef<{ clip: ClipConversionResult; sourceMimeType: string } | null>(null)
+  // 이번 녹음에서 나온 take들의 지문. 창만 옮긴 take끼리는 중복으로 보지 않는다.
+  const captureFingerprintsRef = useRef<AcousticFingerprint[]>([])
+  const captureBackend = useMemo(
+    () => resolveCaptureBackend(captureBackendPreference),
+    [captureBackendPreference],
+  )
+  const mimeType = useMemo(
+    () =>
+      captureBackend === CaptureBackend.AudioWorklet
+        ? PCM_SOURCE_MIME_TYPE
+        : pickSupportedMimeType(),
+    [captureBackend],
+  )
+  // AudioWorklet 녹음이거나 pre-roll이 켜져 있으면 마이크가 준비되는 즉시 worklet을 띄워 둔다.
+  const needsPcmCapture =
+    captureBackend === CaptureBackend.AudioWorklet || (preRollMs > 0 && isAudioWorkletSupported())
 
   const clearTimer = useCallback(() => {
     if (timerRef.current !== null) {
@@ -113,15 +283,229 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
     target?.getTracks().forEach((track) => track.stop())
   }, [])
 
+  const closePcmCapture = useCallback(() => {
+    const current = pcmCaptureRef.current
+    pcmCaptureRef.current = null
+    pcmCapturingRef.current = false
+    if (current) {
+      log.info('pcmCapture:close')
+      current.capture
+        .then((capture) => capture.close())
+        .catch(() => {
+          // 생성에 실패했거나 이미 닫힌 컨텍스트는 무시
+        })
+    }
+  }, [])
+
+  // 결과를 만들지 않고 MediaRecorder를 멈춘다. 핸들러를 먼저 떼서 onstop이 take를 만들지 않게 한다.
+  const discardActiveRecorder = useCallback(() => {
+    const recorder = mediaRecorderRef.current
+    if (!recorder || recorder.state === 'inactive') {
+      return false
+    }
+    recorder.ondataavailable = null
+    recorder.onstop = null
+    recorder.onerror = null
+    recorder.stop()
+    return true
+  }, [])
+
+  const ensurePcmCapture = useCallback(
+    (activeStream: MediaStream): Promise<PcmCapture> => {
+      const current = pcmCaptureRef.current
+      if (current?.stream === activeStream) {
+        return current.capture
+      }
+      closePcmCapture()
+      const capture = createPcmCapture(activeStream, { preRollMs })
+      pcmCaptureRef.current = { stream: activeStream, capture }
+      capture.then(
+        (created) => log.info('pcmCapture:created', { sampleRate: created.sampleRate, preRollMs }),
+        (error: unknown) => {
+          log.error('pcmCapture:create_error', {
+            name: error instanceof DOMException ? error.name : 'UnknownError',
+          })
+          if (pcmCaptureRef.current?.capture === capture) {
+            pcmCaptureRef.current = null
+          }
+        },
+      )
+      return capture
+    },
+    [closePcmCapture, preRollMs],
+  )
+
+  useEffect(() => {
+    if (stream && needsPcmCapture) {
+      ensurePcmCapture(stream).catch(() => {
+        // 실패하면 다음 take 시작 때 다시 만든다. 로그는 ensurePcmCapture에서 남긴다.
+      })
+    }
+  }, [ensurePcmCapture, needsPcmCapture, stream])
+
+  // 지문 -> 중복 검사 -> 게이트. 같은 녹음에서 나온 이전 take(창만 옮긴 것)는 중복 후보에서 뺀다.
+  const judgeClip = useCallback(
+    (converted: ClipConversionResult) => {
+      const missionKind = keywordRef.current?.kind ?? MissionKind.Keyword
+      const fingerprint = computeFingerprint(converted.pcm, converted.sampleRate)
+      const siblingFingerprints = captureFingerprintsRef.current
+      // 같은 방의 배경 소리는 원래 비슷하니 중복 검사는 말소리 take에만 한다.
+      const duplicate =
+        missionKind === MissionKind.Background
+          ? null
+          : findMostSimilarTake(
+              fingerprint,
+              duplicateCandidatesRef.current.filter(
+                (candidate) => !siblingFingerprints.includes(candidate.fingerprint),
+              ),
+            )
+      const gateResult = analyzePcmForSpeechGate(converted.pcm, converted.sampleRate, gateConfig, {
+        calibration: noiseCalibration,
+        duplicate,
+        missionKind,
+        clipDurationMs: converted.spec.durationMs,
+      })
+      return { clip: converted, gateResult, fingerprint }
+    },
+    [gateConfig, noiseCalibration],
+  )
+
+  // 판정이 끝난 take를 화면 상태에 반영하고 onTakeComplete로 넘긴다.
+  const applyTake = useCallback(
+    ({ clip, gateResult: gate, fingerprint }: WindowEvaluation, sourceMimeType: string) => {
+      setAudioBlob(clip.blob)
+      setClipSpec(clip.spec)
+      setClipPcm({ pcm: clip.pcm, sampleRate: clip.sampleRate })
+      setClipSource(clip.source)
+      const newUrl = URL.createObjectURL(clip.blob)
+      clearAudioUrl()
+      audioUrlRef.current = newUrl
+      setAudioUrl(newUrl)
+
+      setMeasuredDurationMs(clip.durationMs)
+      setAlignment(clip.alignment)
+      setGateResult(gate)
+      lastTakeRef.current = { clip, sourceMimeType }
+      captureFingerprintsRef.current = [...captureFingerprintsRef.current, fingerprint]
+      log.info('recorder:duration_measured', {
+        durationMs: clip.durationMs,
+        sampleRate: clip.sampleRate,
+        gateDecision: gate.decision,
+        gateReason: gate.reason,
+        gateProfileId: gate.profileId,
+        snrDb: gate.debugMetrics.snrDb,
+        duplicateSimilarity: gate.debugMetrics.duplicateSimilarity,
+        keywordId: keywordRef.current?.id ?? null,
+        missionKind: keywordRef.current?.kind ?? MissionKind.Keyword,
+        alignmentMode: clip.alignment.mode,
+        windowOffsetMs: clip.alignment.offsetMs,
+        preRollMs: clip.preRollMs,
+      })
+      onTakeCompleteRef.current?.({
+        keyword: keywordRef.current,
+        blob: clip.blob,
+        gateResult: gate,
+        durationMs: clip.durationMs,
+        sampleRate: clip.sampleRate,
+        alignment: clip.alignment,
+        preRollMs: clip.preRollMs,
+        sourceMimeType,
+        recordedAt: Date.now(),
+        device: collectDeviceInfo(streamRef.current, captureSettingsRef.current),
+        fingerprint,
+        outputSpec: clip.spec,
+      })
+    },
+    [clearAudioUrl],
+  )
+
+  // 녹음 backend와 상관없이 변환 -> 게이트 -> 결과 반영은 여기서 한 번에 처리한다.
+  const finishTake = useCallback(
+    async (
+      convert: () => ClipConversionResult | Promise<ClipConversionResult>,
+      sourceMimeType: string,
+    ) => {
+      setStatus(RecorderStatus.Processing)
+
+      try {
+        const converted = await convert()
+        if (!mountedRef.current) {
+          log.warn('recorder:conversion_after_unmount')
+          return
+        }
+        captureFingerprintsRef.current = []
+        applyTake(judgeClip(converted), sourceMimeType)
+      } catch (error) {
+        if (!mountedRef.current) {
+          log.error('recorder:conversion_error_after_unmount')
+          return
+        }
+        const name = error instanceof DOMException ? error.name : 'ConversionError'
+        log.error('recorder:conversion_error', { name })
+        setErrorName(name)
+        setStatus(RecorderStatus.Error)
+        return
+      }
+
+      log.info('recorder:result_ok')
+      setStatus(RecorderStatus.Result)
+    },
+    [applyTake, judgeClip],
+  )
+
+  const evaluateWindow = useCallback(
+    (offsetSamples: number): WindowEvaluation | null => {
+      const lastTake = lastTakeRef.current
+      if (!lastTake) {
+        return null
+      }
+      return judgeClip(convertWindowToClip(lastTake.clip, offsetSamples))
+    },
+    [judgeClip],
+  )
+
+  const acceptWindow = useCallback(
+    (evaluation: WindowEvaluation) => {
+      const lastTake = lastTakeRef.current
+      if (!lastTake) {
+        return
+      }
+      log.info('recorder:manual_window', {
+        offsetMs: evaluation.clip.alignment.offsetMs,
+        autoOffsetMs: evaluation.clip.alignment.autoOffsetMs ?? null,
+        gateDecision: evaluation.gateResult.decision,
+      })
+      applyTake(evaluation, lastTake.sourceMimeType)
+      setStatus(RecorderStatus.Result)
+    },
+    [applyTake],
+  )
+
   useEffect(() => {
     streamRef.current = stream
   }, [stream])
 
+  useEffect(() => {
+    onTakeCompleteRef.current = options?.onTakeComplete
+  }, [options?.onTakeComplete])
+
+  useEffect(() => {
+    duplicateCandidatesRef.current = options?.duplicateCandidates ?? []
+  }, [options?.duplicateCandidates])
+
+  useEffect(() => {
+    inputDeviceIdRef.current = options?.inputDeviceId ?? null
+  }, [options?.inputDeviceId])
+
+  useEffect(() => {
+    captureProfileRef.current = options?.captureProfile ?? DEFAULT_CAPTURE_PROFILE
+  }, [options?.captureProfile])
+
   const requestMicAccess = useCallback(async (): Promise<MediaStream | null> => {
-    log('requestMicAccess:start')
+    log.info('requestMicAccess:start')
     lastMicRequestFailureRef.current = null
-    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
-      log('requestMicAccess:unsupported')
+    if (!navigator.mediaDevices?.getUserMedia || !captureBackend) {
+      log.warn('requestMicAccess:unsupported')
       lastMicRequestFailureRef.current = 'unsupported_api'
       setStatus(RecorderStatus.Unsupported)
       setErrorName('NotSupportedError')
@@ -132,7 +516,8 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
     setErrorName(null)
 
     try {
-      const micPromise = navigator.mediaDevices.getUserMedia({ audio: true })
+      const profile = captureProfileRef.current
+      const micPromise = openMicStream(inputDeviceIdRef.current, profile)
       let isTimedOut = false
       const timeoutMs = MIC_REQUEST_TIMEOUT_MS
 
@@ -148,7 +533,7 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
       // 일부 환경(특히 Chrome + OS 권한/장치 상태 불일치)에서는
       // getUserMedia가 오랫동안 pending 상태로 남을 수 있어 타임아웃으로 탈출한다.
       if (isTimedOut || !newStream) {
-        log('requestMicAccess:timeout', { timeoutMs })
+        log.warn('requestMicAccess:timeout', { timeoutMs })
         lastMicRequestFailureRef.current = 'permission_timeout'
         setErrorName('PermissionTimeoutError')
         setStatus(RecorderStatus.Error)
@@ -161,14 +546,28 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
       }
 
       if (!mountedRef.current) {
-        log('requestMicAccess:resolved_after_unmount')
+        log.warn('requestMicAccess:resolved_after_unmount')
         lastMicRequestFailureRef.current = 'resolved_after_unmount'
         stopAndReleaseStream(newStream)
         return null
       }
-      log('requestMicAccess:success', {
+      const track = newStream.getAudioTracks()[0]
+      const settings = track ? readCaptureSettings(track, profile) : null
+      log.info('requestMicAccess:success', {
         trackCount: newStream.getAudioTracks().length,
+        deviceLabel: track?.label ?? null,
+        profileId: profile.profileId,
+        channelCount: settings?.channelCount,
+        sampleRate: settings?.sampleRate,
       })
+      if (settings && settings.ignored.length > 0) {
+        log.warn('requestMicAccess:constraints_ignored', {
+          profileId: profile.profileId,
+          ignored: settings.ignored.join(','),
+        })
+      }
+      captureSettingsRef.current = settings
+      setCaptureSettings(settings)
       setStream((prev) => {
         stopAndReleaseStream(prev)
         return newStream
@@ -177,76 +576,132 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
       return newStream
     } catch (error) {
       if (!mountedRef.current) {
-        log('requestMicAccess:failed_after_unmount')
+        log.warn('requestMicAccess:failed_after_unmount')
         lastMicRequestFailureRef.current = 'failed_after_unmount'
         return null
       }
       const name = error instanceof DOMException ? error.name : 'UnknownError'
-      log('requestMicAccess:error', { name })
+      log.error('requestMicAccess:error', { name })
       lastMicRequestFailureRef.current = `request_error:${name}`
       setErrorName(name)
       setStatus(RecorderStatus.MicDenied)
       return null
     }
-  }, [stopAndReleaseStream])
-
-  const stopRecorderSafely = useCallback(() => {
-    const recorder = mediaRecorderRef.current
-    if (!recorder || recorder.state === 'inactive') {
-      log('stopRecorderSafely:skipped')
-      return
-    }
-    log('stopRecorderSafely:stop_call', { state: recorder.state })
-    recorder.stop()
-  }, [])
+  }, [captureBackend, stopAndReleaseStream])
+
+  const switchInputDevice = useCallback(
+    async (deviceId: string | null) => {
+      inputDeviceIdRef.current = deviceId
+      // 아직 마이크를 안 열었으면 다음 requestMicAccess 때 이 장치로 연다.
+      if (
+        !streamRef.current ||
+        status === RecorderStatus.Requesting ||
+        status === RecorderStatus.Recording ||
+        status === RecorderStatus.Processing
+      ) {
+        log.info('switchInputDevice:deferred', { status, hasStream: !!streamRef.current })
+        return null
+      }
+      log.info('switchInputDevice:start')
+      // 새 stream이 열린 뒤에 이전 stream을 닫는다. 실패하면 MicDenied/Error로 가서 재시도할 수 있다.
+      return requestMicAccess()
+    },
+    [requestMicAccess, status],
+  )
+
+  // 장치가 빠지면 track이 ended가 된다. 진행 중인 녹음은 버리고 다시 연결할 수 있는 상태로 둔다.
+  // 우리가 track.stop()을 부를 때는 ended가 오지 않는다.
+  const handleTrackEnded = useCallback(() => {
+    log.warn('stream:track_ended', { recording: mediaRecorderRef.current?.state === 'recording' })
+    clearTimer()
+    clearAutoStop()
+    discardActiveRecorder()
+    closePcmCapture()
+    setStream((prev) => {
+      stopAndReleaseStream(prev)
+      return null
+    })
+    captureSettingsRef.current = null
+    setCaptureSettings(null)
+    setElapsedMs(0)
+    setErrorName('TrackEndedError')
+    setStatus(RecorderStatus.DeviceLost)
+  }, [clearAutoStop, clearTimer, closePcmCapture, discardActiveRecorder, stopAndReleaseStream])
 
-  const startRecording = useCallback(async () => {
-    log('startRecording:called', { status })
-    if (status === RecorderStatus.Requesting || status === RecorderStatus.Recording) {
-      log('startRecording:blocked', { status })
+  useEffect(() => {
+    const track = stream?.getAudioTracks()[0]
+    if (!track) {
       return
     }
+    track.addEventListener('ended', handleTrackEnded)
+    return () => track.removeEventListener('ended', handleTrackEnded)
+  }, [handleTrackEnded, stream])
 
-    let activeStream = streamRef.current
-    if (!activeStream) {
-      activeStream = await requestMicAccess()
-    }
-
-    if (!activeStream) {
-      log('startRecording:no_stream', {
-        reasonHint: 'requestMicAccess returned null',
-        failureReason: lastMicRequestFailureRef.current,
-        status,
-        errorName,
-      })
+  const stopRecorderSafely = useCallback(() => {
+    const pcmCapture = pcmCaptureRef.current
+    if (pcmCapturingRef.current && pcmCapture) {
+      pcmCapturingRef.current = false
+      log.info('stopRecorderSafely:pcm_stop_call')
+      void pcmCapture.capture
+        .then((capture) => capture.stop())
+        .then(({ pcm, sampleRate, preRollSamples }) => {
+          log.info('pcmCapture:stopped', { samples: pcm.length, sampleRate, preRollSamples })
+          clearTimer()
+          clearAutoStop()
+          if (!mountedRef.current) {
+            log.warn('pcmCapture:stopped_after_unmount')
+            return
+          }
+          return finishTake(
+            () =>
+              convertPcmToClip(pcm.subarray(preRollSamples), sampleRate, {
+                spec: outputSpec,
+                paddingMs: gateConfig.alignPaddingMs,
+                frameRmsThreshold: speechFrameThreshold,
+                vad: gateConfig,
+                preRoll: { pcm: pcm.subarray(0, preRollSamples), sampleRate },
+              }),
+            PCM_SOURCE_MIME_TYPE,
+          )
+        })
       return
     }
 
-    if (typeof MediaRecorder === 'undefined') {
-      log('startRecording:mediarecorder_undefined')
-      setStatus(RecorderStatus.Unsupported)
-      setErrorName('NotSupportedError')
+    const recorder = mediaRecorderRef.current
+    if (!recorder || recorder.state === 'inactive') {
+      log.info('stopRecorderSafely:skipped')
       return
     }
-
-    try {
-      clearTimer()
-      clearAutoStop()
-      setElapsedMs(0)
-      setMeasuredDurationMs(null)
-      setGateResult(null)
-      setOutputSampleRate(null)
-      setAudioBlob(null)
-      clearAudioUrl()
-      setAudioUrl(null)
+    log.info('stopRecorderSafely:stop_call', { state: recorder.state })
+    recorder.stop()
+  }, [clearAutoStop, clearTimer, finishTake, gateConfig, outputSpec, speechFrameThreshold])
+
+  const startPcmCapture = useCallback(
+    async (activeStream: MediaStream) => {
+      const capture = await ensurePcmCapture(activeStream)
+      capture.start({ includePreRoll: preRollMs > 0 })
+      pcmCapturingRef.current = true
+      log.info('pcmCapture:start', { preRollMs })
+    },
+    [ensurePcmCapture, preRollMs],
+  )
+
+  const startMediaRecorder = useCallback(
+    (activeStream: MediaStream) => {
       chunksRef.current = []
-      setErrorName(null)
-
+      // recorder.start() 직전의 링 버퍼를 떠 둔다. MediaRecorder가 실제로 돌기 시작하기까지의
+      // 지연 때문에 수 ms 정도 겹치거나 빌 수 있지만, 첫 음절이 잘리는 것보다 낫다.
+      const preRollPromise =
+        preRollMs > 0 && pcmCaptureRef.current?.stream === activeStream
+          ? pcmCaptureRef.current.capture
+              .then((capture) => capture.snapshotPreRoll())
+              .catch(() => null)
+          : Promise.resolve(null)
       const recorder = mimeType
         ? new MediaRecorder(activeStream, { mimeType })
         : new MediaRecorder(activeStream)
       mediaRecorderRef.current = recorder
-      log('startRecording:recorder_created', {
+      log.info('startRecording:recorder_created', {
         recorderMimeType: recorder.mimeType || 'default',
         selectedMimeType: mimeType ?? 'default',
       })
@@ -254,72 +709,45 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
       recorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data)
-          log('recorder:ondataavailable', { chunkSize: event.data.size })
+          log.debug('recorder:ondataavailable', { chunkSize: event.data.size })
         }
       }
 
       recorder.onstop = async () => {
-        log('recorder:onstop')
+        log.info('recorder:onstop')
         clearTimer()
         clearAutoStop()
         if (!mountedRef.current) {
-          log('recorder:onstop_after_unmount')
+          log.warn('recorder:onstop_after_unmount')
           return
         }
 
-        setStatus(RecorderStatus.Processing)
-        const resultBlob = new Blob(chunksRef.current, {
-          type: recorder.mimeType || mimeType || 'audio/webm',
-        })
-        log('recorder:blob_created', { size: resultBlob.size, chunks: chunksRef.current.length })
+        const sourceMimeType = recorder.mimeType || mimeType || 'audio/webm'
+        const resultBlob = new Blob(chunksRef.current, { type: sourceMimeType })
+        log.info('recorder:blob_created', { size: resultBlob.size, chunks: chunksRef.current.length })
         chunksRef.current = []
 
-        try {
-          const converted = await convertBlobTo16kMonoWav(resultBlob)
-          if (!mountedRef.current) {
-            log('recorder:conversion_after_unmount')
-            return
-          }
-
-          setAudioBlob(converted.blob)
-          setOutputSampleRate(converted.sampleRate)
-          const newUrl = URL.createObjectURL(converted.blob)
-          clearAudioUrl()
-          audioUrlRef.current = newUrl
-          setAudioUrl(newUrl)
-
-          setMeasuredDurationMs(converted.durationMs)
-          const gate = analyzePcmForSpeechGate(converted.pcm, converted.sampleRate)
-          setGateResult(gate)
-          log('recorder:duration_measured', {
-            durationMs: converted.durationMs,
-            sampleRate: converted.sampleRate,
-            gateDecision: gate.decision,
-            gateReason: gate.reason,
-          })
-        } catch (error) {
-          if (!mountedRef.current) {
-            log('recorder:conversion_error_after_unmount')
-            return
-          }
-          const name = error instanceof DOMException ? error.name : 'ConversionError'
-          log('recorder:conversion_error', { name })
-          setErrorName(name)
-          setStatus(RecorderStatus.Error)
-          return
-        }
-
-        log('recorder:result_ok')
-        setStatus(RecorderStatus.Result)
+        const preRoll = await preRollPromise
+        await finishTake(
+          () =>
+            convertBlobToClip(resultBlob, {
+              spec: outputSpec,
+              paddingMs: gateConfig.alignPaddingMs,
+              frameRmsThreshold: speechFrameThreshold,
+              vad: gateConfig,
+              preRoll,
+            }),
+          sourceMimeType,
+        )
       }
 
       recorder.onerror = (event) => {
         if (!mountedRef.current) {
-          log('recorder:onerror_after_unmount')
+          log.error('recorder:onerror_after_unmount')
           return
         }
         const domError = (event as Event & { error?: DOMException }).error
-        log('recorder:onerror', { name: domError?.name ?? 'RecorderError' })
+        log.error('recorder:onerror', { name: domError?.name ?? 'RecorderError' })
         setErrorName(domError?.name ?? 'RecorderError')
         setStatus(RecorderStatus.Error)
         clearTimer()
@@ -327,7 +755,72 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
       }
 
       recorder.start()
-      log('recorder:start')
+      log.info('recorder:start')
+    },
+    [
+      clearAutoStop,
+      clearTimer,
+      finishTake,
+      gateConfig,
+      mimeType,
+      outputSpec,
+      preRollMs,
+      speechFrameThreshold,
+    ],
+  )
+
+  const startRecording = useCallback(async (nextKeyword: KeywordEntry | null = null) => {
+    log.info('startRecording:called', { status, keywordId: nextKeyword?.id ?? null })
+    if (status === RecorderStatus.Requesting || status === RecorderStatus.Recording) {
+      log.warn('startRecording:blocked', { status })
+      return
+    }
+
+    let activeStream = streamRef.current
+    if (!activeStream) {
+      activeStream = await requestMicAccess()
+    }
+
+    if (!activeStream) {
+      log.warn('startRecording:no_stream', {
+        reasonHint: 'requestMicAccess returned null',
+        failureReason: lastMicRequestFailureRef.current,
+        status,
+        errorName,
+      })
+      return
+    }
+
+    if (!captureBackend) {
+      log.warn('startRecording:no_capture_backend', { preference: captureBackendPreference })
+      setStatus(RecorderStatus.Unsupported)
+      setErrorName('NotSupportedError')
+      return
+    }
+
+    try {
+      clearTimer()
+      clearAutoStop()
+      setElapsedMs(0)
+      setMeasuredDurationMs(null)
+      setGateResult(null)
+      setAlignment(null)
+      setClipSpec(null)
+      setClipPcm(null)
+      setClipSource(null)
+      lastTakeRef.current = null
+      keywordRef.current = nextKeyword
+      setKeyword(nextKeyword)
+      setAudioBlob(null)
+      clearAudioUrl()
+      setAudioUrl(null)
+      setErrorName(null)
+
+      if (captureBackend === CaptureBackend.AudioWorklet) {
+        await startPcmCapture(activeStream)
+      } else {
+        startMediaRecorder(activeStream)
+      }
       startedAtRef.current = Date.now()
       setStatus(RecorderStatus.Recording)
 
@@ -340,68 +833,75 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
       }, 100)
 
       autoStopRef.current = window.setTimeout(() => {
-        log('recorder:auto_stop_timeout', { maxDurationMs })
+        log.warn('recorder:auto_stop_timeout', { maxDurationMs, captureDurationMs })
         setElapsedMs(maxDurationMs)
         stopRecorderSafely()
-      }, maxDurationMs)
+      }, captureDurationMs)
     } catch (error) {
       if (!mountedRef.current) {
-        log('startRecording:error_after_unmount')
+        log.warn('startRecording:error_after_unmount')
         return
       }
       const name = error instanceof DOMException ? error.name : 'UnknownError'
-      log('startRecording:error', { name })
+      log.error('startRecording:error', { name })
       setErrorName(name)
       setStatus(RecorderStatus.Error)
       clearTimer()
       clearAutoStop()
     }
   }, [
+    captureBackend,
+    captureBackendPreference,
+    captureDurationMs,
     clearAudioUrl,
     clearAutoStop,
     clearTimer,
     maxDurationMs,
-    mimeType,
     requestMicAccess,
     errorName,
+    startMediaRecorder,
+    startPcmCapture,
     status,
     stopRecorderSafely,
   ])
 
   const retry = useCallback(async () => {
-    log('retry:called')
+    log.info('retry:called')
     setErrorName(null)
     setGateResult(null)
     if (!streamRef.current) {
-      log('retry:request_mic_again')
+      log.info('retry:request_mic_again')
       await requestMicAccess()
       return
     }
-    log('retry:to_ready')
+    log.info('retry:to_ready')
     setStatus(RecorderStatus.Ready)
   }, [requestMicAccess])
 
   useEffect(() => {
     mountedRef.current = true
-    log('lifecycle:mounted')
+    log.info('lifecycle:mounted')
     return () => {
-      log('cleanup:start')
+      log.info('cleanup:start')
       mountedRef.current = false
       clearTimer()
       clearAutoStop()
       clearAudioUrl()
-      const recorder = mediaRecorderRef.current
-      if (recorder && recorder.state !== 'inactive') {
-        log('cleanup:stop_active_recorder')
-        recorder.ondataavailable = null
-        recorder.onstop = null
-        recorder.onerror = null
-        recorder.stop()
+      if (discardActiveRecorder()) {
+        log.info('cleanup:stop_active_recorder')
       }
+      closePcmCapture()
       stopAndReleaseStream(streamRef.current)
-      log('cleanup:done')
+      log.info('cleanup:done')
     }
-  }, [clearAudioUrl, clearAutoStop, clearTimer, stopAndReleaseStream])
+  }, [
+    clearAudioUrl,
+    clearAutoStop,
+    clearTimer,
+    closePcmCapture,
+    discardActiveRecorder,
+    stopAndReleaseStream,
+  ])
 
   return {
     status,
@@ -412,11 +912,20 @@ export const useRecorder = (options?: UseRecorderOptions): UseRecorderResult =>
     elapsedMs,
     measuredDurationMs,
     gateResult,
+    alignment,
+    keyword,
+    captureBackend,
     mimeType,
-    outputSampleRate,
+    captureSettings,
+    clipSpec,
+    clipPcm,
+    clipSource,
     maxDurationMs,
     requestMicAccess,
+    switchInputDevice,
     startRecording,
     retry,
+    evaluateWindow,
+    acceptWindow,
   }
 }
@@ -0,0 +1,248 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createLogger } from '../utils/eventLog'
+import type { GateDecision } from '../utils/gate'
+import { createReviewId, type ReviewVerdict, type TakeReview } from '../utils/review'
+import { mergeReviews, parseReviewExport } from '../utils/reviewImport'
+import {
+  excludeSupersededTakes,
+  listReviews,
+  listTakes,
+  listUploadEntries,
+  saveReview,
+  saveReviews,
+  type StoredTake,
+  type UploadStatus,
+} from '../utils/takeStore'
+
+export const ReviewFilter = {
+  All: 'all',
+  // 지금 검수자가 아직 안 본 take만.
+  Unreviewed: 'unreviewed',
+  Pass: 'PASS',
+  Ambig: 'AMBIG',
+  Reject: 'REJECT',
+} as const
+
+export type ReviewFilter = (typeof ReviewFilter)[keyof typeof ReviewFilter]
+
+export type ReviewInput = {
+  takeId: string
+  verdict: ReviewVerdict
+  label: string | null
+  reason: string
+}
+
+export type ReviewImportSummary = {
+  importedCount: number
+  // 이미 같거나 더 최근 판정이 있어서 건너뛴 수.
+  skippedCount: number
+  // 이 브라우저에 없는 take의 검수. 저장은 해 두고, 그 take를 가져오면 통계에 잡힌다.
+  unknownTakeCount: number
+}
+
+type UseReviewQueueResult = {
+  isLoading: boolean
+  errorName: string | null
+  // 녹음 순서로 정렬한 전체 take. 다른 take가 대신하는 원본은 뺀다.
+  takes: StoredTake[]
+  reviews: TakeReview[]
+  uploadStatuses: Map<string, UploadStatus>
+  filter: ReviewFilter
+  setFilter: (filter: ReviewFilter) => void
+  // 필터를 통과한 take. 방금 검수해서 필터에서 빠진 take도 current로는 계속 보인다.
+  queue: StoredTake[]
+  current: StoredTake | null
+  step: (delta: 1 | -1) => void
+  jumpToUnreviewed: () => boolean
+  submitReview: (input: ReviewInput) => Promise<boolean>
+  // 다른 검수자가 내보낸 reviews.csv / manifest.jsonl / JSON을 (takeId, 검수자)마다 합친다.
+  importReviews: (file: File) => Promise<ReviewImportSummary>
+  refresh: () => Promise<void>
+}
+
+const log = createLogger('useReviewQueue')
+
+const matchesFilter = (
+  take: StoredTake,
+  filter: ReviewFilter,
+  reviewedByMe: Set<string>,
+): boolean => {
+  if (filter === ReviewFilter.All) {
+    return true
+  }
+  if (filter === ReviewFilter.Unreviewed) {
+    return !reviewedByMe.has(take.id)
+  }
+  return take.gateResult.decision === (filter as GateDecision)
+}
+
+/**
+ * 로컬에 저장된(업로드된 것 포함) take와 검수 기록을 읽어 검수 화면의 순서와 필터를 관리한다.
+ * 다른 검수자의 기록은 그 사람이 내보낸 파일을 importReviews로 합쳐서 본다.
+ */
+export const useReviewQueue = (reviewerId: string | null): UseReviewQueueResult => {
+  const [isLoading, setIsLoading] = useState(true)
+  const [errorName, setErrorName] = useState<string | null>(null)
+  const [takes, setTakes] = useState<StoredTake[]>([])
+  const [reviews, setReviews] = useState<TakeReview[]>([])
+  const [uploadStatuses, setUploadStatuses] = useState<Map<string, UploadStatus>>(new Map())
+  const [filter, setFilterState] = useState<ReviewFilter>(ReviewFilter.All)
+  const [currentId, setCurrentId] = useState<string | null>(null)
+
+  const refresh = useCallback(
+    () =>
+      Promise.all([listTakes(), listReviews(), listUploadEntries()])
+        .then(([loadedTakes, loadedReviews, entries]) => {
+          // 창을 다시 고른 take가 대신하는 원본은 검수하지 않는다. 같은 발화가 두 번 세어진다.
+          setTakes(
+            excludeSupersededTakes(loadedTakes).sort((a, b) => a.recordedAt - b.recordedAt),
+          )
+          setReviews(loadedReviews)
+          setUploadStatuses(new Map(entries.map((entry) => [entry.takeId, entry.status])))
+          setErrorName(null)
+          log.info('refresh', { takes: loadedTakes.length, reviews: loadedReviews.length })
+        })
+        .catch((error: unknown) => {
+          const name = error instanceof DOMException ? error.name : 'StorageError'
+          log.error('refresh:error', { name })
+          setErrorName(name)
+        })
+        .finally(() => setIsLoading(false)),
+    [],
+  )
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  const reviewedByMe = useMemo(
+    () =>
+      new Set(
+        reviews.filter((review) => review.reviewerId === reviewerId).map((review) => review.takeId),
+      ),
+    [reviewerId, reviews],
+  )
+
+  const queue = useMemo(
+    () => takes.filter((take) => matchesFilter(take, filter, reviewedByMe)),
+    [filter, reviewedByMe, takes],
+  )
+
+  const current = takes.find((take) => take.id === currentId) ?? queue[0] ?? null
+
+  const setFilter = useCallback(
+    (next: ReviewFilter) => {
+      setFilterState(next)
+      // 보던 take가 새 필터에도 있으면 그대로 두고, 없으면 새 목록의 처음으로 간다.
+      const stillVisible = current !== null && matchesFilter(current, next, reviewedByMe)
+      if (!stillVisible) {
+        setCurrentId(takes.find((take) => matchesFilter(take, next, reviewedByMe))?.id ?? null)
+      }
+    },
+    [current, reviewedByMe, takes],
+  )
+
+  const step = useCallback(
+    (delta: 1 | -1) => {
+      if (!current) {
+        return
+      }
+      // current가 필터에서 빠졌어도 녹음 순서를 기준으로 앞뒤를 찾는다.
+      const order = takes.indexOf(current)
+      const candidates = queue.filter((take) =>
+        delta > 0 ? takes.indexOf(take) > order : takes.indexOf(take) < order,
+      )
+      const next = delta > 0 ? candidates[0] : candidates[candidates.length - 1]
+      if (next) {
+        setCurrentId(next.id)
+      }
+    },
+    [current, queue, takes],
+  )
+
+  const jumpToUnreviewed = useCallback(() => {
+    const order = current ? takes.indexOf(current) : -1
+    // current 다음부터 찾고 끝까지 없으면 처음부터 다시 찾는다.
+    const rotated = [...takes.slice(order + 1), ...takes.slice(0, order + 1)]
+    const next = rotated.find((take) => !reviewedByMe.has(take.id))
+    if (!next) {
+      return false
+    }
+    setCurrentId(next.id)
+    return true
+  }, [current, reviewedByMe, takes])
+
+  const submitReview = useCallback(
+    async ({ takeId, verdict, label, reason }: ReviewInput) => {
+      if (!reviewerId) {
+        return false
+      }
+      const review: TakeReview = {
+        id: createReviewId(takeId, reviewerId),
+        takeId,
+        reviewerId,
+        verdict,
+        label,
+        reason,
+        reviewedAt: Date.now(),
+      }
+      try {
+        await saveReview(review)
+        log.info('submitReview:saved', { takeId, verdict })
+        setErrorName(null)
+        setReviews((prev) => [...prev.filter((item) => item.id !== review.id), review])
+        setCurrentId(takeId)
+        return true
+      } catch (error) {
+        const name = error instanceof DOMException ? error.name : 'StorageError'
+        log.error('submitReview:error', { name })
+        setErrorName(name)
+        return false
+      }
+    },
+    [reviewerId],
+  )
+
+  const importReviews = useCallback(
+    async (file: File) => {
+      try {
+        const incoming = parseReviewExport(await file.text(), file.name)
+        const { toSave, skippedCount } = mergeReviews(await listReviews(), incoming)
+        await saveReviews(toSave)
+        const takeIds = new Set(takes.map((take) => take.id))
+        const summary: ReviewImportSummary = {
+          importedCount: toSave.length,
+          skippedCount,
+          unknownTakeCount: toSave.filter((review) => !takeIds.has(review.takeId)).length,
+        }
+        log.info('importReviews:saved', { fileName: file.name, ...summary })
+        const saved = new Set(toSave.map((review) => review.id))
+        setReviews((prev) => [...prev.filter((review) => !saved.has(review.id)), ...toSave])
+        return summary
+      } catch (error) {
+        log.error('importReviews:error', {
+          name: error instanceof DOMException ? error.name : 'ReviewImportError',
+        })
+        throw error
+      }
+    },
+    [takes],
+  )
+
+  return {
+    isLoading,
+    errorName,
+    takes,
+    reviews,
+    uploadStatuses,
+    filter,
+    setFilter,
+    queue,
+    current,
+    step,
+    jumpToUnreviewed,
+    submitReview,
+    importReviews,
+    refresh,
+  }
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react'
+import { createLogger } from '../utils/eventLog'
+import type { FingerprintCandidate } from '../utils/fingerprint'
+import {
+  getTakeStoreSummary,
+  listTakeFingerprints,
+  requestPersistentStorage,
+  saveTake,
+  type StoredTake,
+  type TakeStoreSummary,
+} from '../utils/takeStore'
+
+type UseTakeStoreResult = {
+  summary: TakeStoreSummary | null
+  errorName: string | null
+  // 이 화자의 이전 take 지문. 새 take의 중복 검사에 쓴다.
+  fingerprints: FingerprintCandidate[]
+  storeTake: (take: StoredTake) => Promise<boolean>
+  refresh: () => Promise<void>
+}
+
+const log = createLogger('useTakeStore')
+
+export const useTakeStore = (speakerId: string): UseTakeStoreResult => {
+  const [summary, setSummary] = useState<TakeStoreSummary | null>(null)
+  const [errorName, setErrorName] = useState<string | null>(null)
+  const [fingerprints, setFingerprints] = useState<FingerprintCandidate[]>([])
+
+  const refresh = useCallback(
+    () =>
+      getTakeStoreSummary()
+        .then(setSummary)
+        .catch((error: unknown) => {
+          const name = error instanceof DOMException ? error.name : 'StorageError'
+          log.error('refresh:error', { name })
+          setErrorName(name)
+        }),
+    [],
+  )
+
+  const storeTake = useCallback(
+    async (take: StoredTake) => {
+      try {
+        await saveTake(take)
+        log.info('storeTake:saved', { id: take.id, sizeBytes: take.sizeBytes })
+        setErrorName(null)
+        const { fingerprint } = take
+        if (fingerprint) {
+          setFingerprints((prev) => [...prev, { takeId: take.id, fingerprint }])
+        }
+        await refresh()
+        return true
+      } catch (error) {
+        // QuotaExceededError 등은 녹음 흐름을 막지 않고 UI에만 알린다.
+        const name = error instanceof DOMException ? error.name : 'StorageError'
+        log.error('storeTake:error', { name })
+        setErrorName(name)
+        return false
+      }
+    },
+    [refresh],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    listTakeFingerprints(speakerId)
+      .then((loaded) => {
+        if (!cancelled) {
+          // 로드 전에 저장된 take가 있으면 잃지 않도록 합친다.
+          setFingerprints((prev) => [
+            ...loaded.filter((item) => !prev.some((existing) => existing.takeId === item.takeId)),
+            ...prev,
+          ])
+        }
+      })
+      .catch((error: unknown) => {
+        log.error('fingerprints:error', { name: error instanceof DOMException ? error.name : 'StorageError' })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [speakerId])
+
+  useEffect(() => {
+    void refresh()
+    void requestPersistentStorage().then((persisted) => log.info('persist', { persisted }))
+  }, [refresh])
+
+  return { summary, errorName, fingerprints, storeTake, refresh }
+}
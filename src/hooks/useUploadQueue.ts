@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createLogger } from '../utils/eventLog'
+import {
+  getTake,
+  listUploadEntries,
+  saveUploadEntry,
+  UploadStatus,
+  type UploadEntry,
+} from '../utils/takeStore'
+import {
+  computeBackoffMs,
+  DEFAULT_UPLOAD_ENDPOINT,
+  UPLOAD_MAX_ATTEMPTS,
+  uploadTake,
+} from '../utils/uploader'
+
+type UseUploadQueueOptions = {
+  endpoint?: string
+}
+
+type UseUploadQueueResult = {
+  entries: UploadEntry[]
+  isOnline: boolean
+  enqueue: (takeId: string, keywordText: string | null) => Promise<void>
+  retryFailed: () => Promise<void>
+}
+
+const log = createLogger('useUploadQueue')
+
+const isNavigatorOnline = () => (typeof navigator === 'undefined' ? true : navigator.onLine)
+
+export const useUploadQueue = (options?: UseUploadQueueOptions): UseUploadQueueResult => {
+  const endpoint = options?.endpoint ?? DEFAULT_UPLOAD_ENDPOINT
+
+  const [entries, setEntries] = useState<UploadEntry[]>([])
+  const [isOnline, setIsOnline] = useState(isNavigatorOnline)
+
+  const processingRef = useRef(false)
+  // 도는 중에 들어온 요청. 이미 마지막 목록을 읽은 뒤라면 새 항목을 못 볼 수 있어서 끝나고 한 번 더 돈다.
+  const rerunRequestedRef = useRef(false)
+  const wakeTimerRef = useRef<number | null>(null)
+  const mountedRef = useRef(true)
+  const processQueueRef = useRef<() => Promise<void>>(async () => {})
+
+  const clearWakeTimer = useCallback(() => {
+    if (wakeTimerRef.current !== null) {
+      window.clearTimeout(wakeTimerRef.current)
+      wakeTimerRef.current = null
+    }
+  }, [])
+
+  const updateEntry = useCallback(async (entry: UploadEntry) => {
+    await saveUploadEntry(entry)
+    if (mountedRef.current) {
+      setEntries((prev) => {
+        const index = prev.findIndex((item) => item.takeId === entry.takeId)
+        if (index === -1) {
+          return [...prev, entry]
+        }
+        const next = [...prev]
+        next[index] = entry
+        return next
+      })
+    }
+  }, [])
+
+  const scheduleWake = useCallback(
+    (queue: UploadEntry[]) => {
+      clearWakeTimer()
+      const nextDue = queue
+        .filter((entry) => entry.status === UploadStatus.Pending)
+        .reduce((min, entry) => Math.min(min, entry.nextAttemptAt), Number.POSITIVE_INFINITY)
+      if (!Number.isFinite(nextDue)) {
+        return
+      }
+      const delayMs = Math.max(0, nextDue - Date.now())
+      log.debug('scheduleWake', { delayMs })
+      wakeTimerRef.current = window.setTimeout(() => {
+        wakeTimerRef.current = null
+        void processQueueRef.current()
+      }, delayMs)
+    },
+    [clearWakeTimer],
+  )
+
+  // 한 번에 하나씩, 시간이 된 pending 항목을 업로드한다.
+  const processQueue = useCallback(async () => {
+    if (!mountedRef.current) {
+      return
+    }
+    if (processingRef.current) {
+      rerunRequestedRef.current = true
+      return
+    }
+    processingRef.current = true
+    rerunRequestedRef.current = false
+    clearWakeTimer()
+
+    try {
+      for (;;) {
+        const queue = await listUploadEntries()
+        const due = queue.find(
+          (entry) => entry.status === UploadStatus.Pending && entry.nextAttemptAt <= Date.now(),
+        )
+        if (!due || !isNavigatorOnline() || !mountedRef.current) {
+          if (isNavigatorOnline()) {
+            scheduleWake(queue)
+          }
+          return
+        }
+
+        await updateEntry({ ...due, status: UploadStatus.Uploading, updatedAt: Date.now() })
+        const take = await getTake(due.takeId)
+        if (!take) {
+          log.warn('processQueue:take_missing', { takeId: due.takeId })
+          await updateEntry({
+            ...due,
+            status: UploadStatus.Failed,
+            lastError: 'TakeMissing',
+            updatedAt: Date.now(),
+          })
+          continue
+        }
+
+        const outcome = await uploadTake(take, endpoint)
+        const attempts = due.attempts + 1
+        if (outcome.ok) {
+          log.info('processQueue:uploaded', { takeId: due.takeId, attempts })
+          await updateEntry({
+            ...due,
+            status: UploadStatus.Uploaded,
+            attempts,
+            lastError: null,
+            updatedAt: Date.now(),
+          })
+          continue
+        }
+
+        const giveUp = !outcome.retryable || attempts >= UPLOAD_MAX_ATTEMPTS
+        log.error('processQueue:failed', { takeId: due.takeId, attempts, errorName: outcome.errorName, giveUp })
+        await updateEntry({
+          ...due,
+          status: giveUp ? UploadStatus.Failed : UploadStatus.Pending,
+          attempts,
+          nextAttemptAt: Date.now() + computeBackoffMs(attempts),
+          lastError: outcome.errorName,
+          updatedAt: Date.now(),
+        })
+      }
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : 'UploadQueueError'
+      log.error('processQueue:error', { name })
+    } finally {
+      processingRef.current = false
+      if (rerunRequestedRef.current && mountedRef.current) {
+        rerunRequestedRef.current = false
+        void processQueueRef.current()
+      }
+    }
+  }, [clearWakeTimer, endpoint, scheduleWake, updateEntry])
+
+  useEffect(() => {
+    processQueueRef.current = processQueue
+  }, [processQueue])
+
+  const enqueue = useCallback(
+    async (takeId: string, keywordText: string | null) => {
+      const now = Date.now()
+      await updateEntry({
+        takeId,
+        keywordText,
+        status: UploadStatus.Pending,
+        attempts: 0,
+        nextAttemptAt: now,
+        lastError: null,
+        createdAt: now,
+        updatedAt: now,
+      })
+      log.info('enqueue', { takeId })
+      void processQueue()
+    },
+    [processQueue, updateEntry],
+  )
+
+  const retryFailed = useCallback(async () => {
+    const queue = await listUploadEntries()
+    for (const entry of queue.filter((item) => item.status === UploadStatus.Failed)) {
+      await updateEntry({
+        ...entry,
+        status: UploadStatus.Pending,
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    }
+    void processQueue()
+  }, [processQueue, updateEntry])
+
+  useEffect(() => {
+    mountedRef.current = true
+    const handleOnline = () => {
+      log.info('network:online')
+      setIsOnline(true)
+      void processQueueRef.current()
+    }
+    const handleOffline = () => {
+      log.warn('network:offline')
+      setIsOnline(false)
+    }
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    // 업로드 도중 탭이 닫혔던 항목은 pending으로 되돌린다. PUT이 멱등이라 다시 보내도 안전하다.
+    listUploadEntries()
+      .then(async (queue) => {
+        const restored = queue.map((entry) =>
+          entry.status === UploadStatus.Uploading
+            ? { ...entry, status: UploadStatus.Pending, updatedAt: Date.now() }
+            : entry,
+        )
+        for (const entry of restored.filter((item, index) => item !== queue[index])) {
+          await saveUploadEntry(entry)
+        }
+        if (mountedRef.current) {
+          setEntries(restored)
+          void processQueueRef.current()
+        }
+      })
+      .catch((error: unknown) => {
+        log.error('restore:error', {
+          name: error instanceof DOMException ? error.name : 'StorageError',
+        })
+      })
+
+    return () => {
+      mountedRef.current = false
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      clearWakeTimer()
+    }
+  }, [clearWakeTimer])
+
+  return { entries, isOnline, enqueue, retryFailed }
+}
@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from 'react'
+import { createLogger } from '../utils/eventLog'
+import { SPEECH_FRAME_RMS_THRESHOLD } from '../utils/gateConfig'
+
+export const VoiceTriggerState = {
+  Idle: 'Idle',
+  Arming: 'Arming',
+  Listening: 'Listening',
+  TimedOut: 'TimedOut',
+} as const
+
+export type VoiceTriggerState = (typeof VoiceTriggerState)[keyof typeof VoiceTriggerState]
+
+type UseVoiceTriggerOptions = {
+  armed: boolean
+  onTrigger: () => void
+  onTimeout?: () => void
+  // 결과 안내 음성/잔향이 다음 take를 바로 트리거하지 않도록 무장 전에 잠깐 쉰다.
+  armDelayMs?: number
+  idleTimeoutMs?: number
+}
+
+const ANALYSER_FFT_SIZE = 1024
+const POLL_INTERVAL_MS = 20
+const ONSET_FRAMES = 3
+// 주변 소음 바닥보다 이만큼 커야 발화 시작으로 본다.
+const ONSET_FLOOR_RATIO = 3
+const NOISE_FLOOR_SMOOTHING = 0.05
+const DEFAULT_ARM_DELAY_MS = 800
+const DEFAULT_IDLE_TIMEOUT_MS = 20000
+
+const log = createLogger('useVoiceTrigger')
+
+/**
+ * 핸즈프리 모드용 가벼운 에너지 기반 VAD.
+ * armed 동안 stream을 보다가 발화 시작이 감지되면 onTrigger를 한 번 부르고 스스로 Idle로 돌아간다.
+ * idleTimeoutMs 동안 아무 발화도 없으면 onTimeout을 부르고 TimedOut에 머문다.
+ */
+export const useVoiceTrigger = (
+  stream: MediaStream | null,
+  options: UseVoiceTriggerOptions,
+): VoiceTriggerState => {
+  const { armed } = options
+  const armDelayMs = options.armDelayMs ?? DEFAULT_ARM_DELAY_MS
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS
+  const [state, setState] = useState<VoiceTriggerState>(VoiceTriggerState.Idle)
+  const onTriggerRef = useRef(options.onTrigger)
+  const onTimeoutRef = useRef(options.onTimeout)
+
+  useEffect(() => {
+    onTriggerRef.current = options.onTrigger
+    onTimeoutRef.current = options.onTimeout
+  }, [options.onTimeout, options.onTrigger])
+
+  useEffect(() => {
+    if (!stream || !armed || typeof window.AudioContext === 'undefined') {
+      return
+    }
+
+    const audioContext = new AudioContext()
+    const source = audioContext.createMediaStreamSource(stream)
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = ANALYSER_FFT_SIZE
+    source.connect(analyser)
+    const samples = new Float32Array(analyser.fftSize)
+
+    let pollId: number | null = null
+    let idleTimeoutId: number | null = null
+    let noiseFloor = 0
+    let onsetFrames = 0
+    let finished = false
+
+    const stopWatching = () => {
+      finished = true
+      if (pollId !== null) {
+        window.clearInterval(pollId)
+        pollId = null
+      }
+      if (idleTimeoutId !== null) {
+        window.clearTimeout(idleTimeoutId)
+        idleTimeoutId = null
+      }
+    }
+
+    const poll = () => {
+      analyser.getFloatTimeDomainData(samples)
+      let squares = 0
+      for (let index = 0; index < samples.length; index += 1) {
+        squares += samples[index] * samples[index]
+      }
+      const rms = Math.sqrt(squares / samples.length)
+      const threshold = Math.max(SPEECH_FRAME_RMS_THRESHOLD, noiseFloor * ONSET_FLOOR_RATIO)
+
+      if (rms >= threshold) {
+        onsetFrames += 1
+      } else {
+        onsetFrames = 0
+        noiseFloor =
+          noiseFloor === 0 ? rms : noiseFloor + (rms - noiseFloor) * NOISE_FLOOR_SMOOTHING
+      }
+
+      if (onsetFrames >= ONSET_FRAMES && !finished) {
+        log.info('trigger', { rms, noiseFloor })
+        stopWatching()
+        setState(VoiceTriggerState.Idle)
+        onTriggerRef.current()
+      }
+    }
+
+    const armDelayId = window.setTimeout(() => {
+      if (finished) {
+        return
+      }
+      void audioContext.resume()
+      log.info('listening', { idleTimeoutMs })
+      setState(VoiceTriggerState.Listening)
+      pollId = window.setInterval(poll, POLL_INTERVAL_MS)
+      idleTimeoutId = window.setTimeout(() => {
+        log.warn('idle_timeout', { idleTimeoutMs })
+        stopWatching()
+        setState(VoiceTriggerState.TimedOut)
+        onTimeoutRef.current?.()
+      }, idleTimeoutMs)
+    }, armDelayMs)
+
+    // 무장 대기 상태도 화면에 보여줄 수 있도록 비동기로 알린다.
+    const armingId = window.setTimeout(() => {
+      if (!finished) {
+        setState(VoiceTriggerState.Arming)
+      }
+    }, 0)
+
+    return () => {
+      window.clearTimeout(armDelayId)
+      window.clearTimeout(armingId)
+      stopWatching()
+      source.disconnect()
+      void audioContext.close()
+      setState((prev) => (prev === VoiceTriggerState.TimedOut ? prev : VoiceTriggerState.Idle))
+    }
+  }, [armDelayMs, armed, idleTimeoutMs, stream])
+
+  return armed ? state : state === VoiceTriggerState.TimedOut ? state : VoiceTriggerState.Idle
+}
@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './styles.css'
 import App from './App.tsx'
+import { AnalyticsDashboard } from './components/AnalyticsDashboard.tsx'
+import { ReviewScreen } from './components/ReviewScreen.tsx'
+
+// 검수(?mode=review)와 수집 현황(?mode=analytics)은 녹음과 따로 연다. 마이크 권한을 묻지 않는다.
+const mode = new URLSearchParams(window.location.search).get('mode')
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {mode === 'review' ? <ReviewScreen /> : mode === 'analytics' ? <AnalyticsDashboard /> : <App />}
   </StrictMode>,
 )
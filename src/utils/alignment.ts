@@ -0,0 +1,243 @@
+import {
+  ALIGN_PADDING_MS,
+  DEFAULT_GATE_CONFIG,
+  FRAME_MS,
+  SPEECH_FRAME_RMS_THRESHOLD,
+  type GateConfig,
+} from './gateConfig'
+import { detectSpeechFrames } from './vad'
+
+export const AlignmentMode = {
+  Centered: 'centered',
+  Trimmed: 'trimmed',
+  Head: 'head',
+  // 참가자나 운영자가 창 위치를 직접 옮겼다.
+  Manual: 'manual',
+} as const
+
+export type AlignmentMode = (typeof AlignmentMode)[keyof typeof AlignmentMode]
+
+export type SpeechRegion = {
+  startSample: number
+  endSample: number
+}
+
+export type SpeechAlignment = {
+  mode: AlignmentMode
+  // 원본 PCM에서 창이 시작한 위치. 음수면 앞쪽을 0으로 채웠다는 뜻.
+  offsetSamples: number
+  offsetMs: number
+  sourceDurationMs: number
+  speechRegion: SpeechRegion | null
+  // manual일 때만: 자동 정렬이 처음 골랐던 위치. 얼마나 옮겼는지 나중에 볼 수 있게 남긴다.
+  autoOffsetMs?: number
+}
+
+export type AlignedWindow = {
+  pcm: Float32Array
+  alignment: SpeechAlignment
+}
+
+// 게이트와 같은 VAD 설정. 창을 고를 때와 판정할 때 발화 위치가 같아야 한다.
+export type AlignVadSettings = Pick<
+  GateConfig,
+  | 'vadMaxSpectralFlatness'
+  | 'vadMinVoiceBandRatio'
+  | 'vadMaxZeroCrossingRate'
+  | 'vadMinRunMs'
+  | 'vadHangoverMs'
+>
+
+type AlignOptions = {
+  paddingMs?: number
+  frameRmsThreshold?: number
+  vad?: AlignVadSettings
+}
+
+const WINDOW_ENERGY_TIE_RATIO = 0.01
+
+type SpeechFrames = {
+  frameSize: number
+  // 프레임마다 발화로 본 에너지(제곱합). 발화가 아닌 프레임은 0.
+  speechEnergies: number[]
+  mask: number[]
+}
+
+// 스펙트럼 VAD 마스크로 발화 프레임을 고른다. 문 닫힘/기침/딸깍 소리는 여기서 빠진다.
+const detectAlignmentFrames = (
+  pcm: Float32Array,
+  sampleRate: number,
+  options?: AlignOptions,
+): SpeechFrames => {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000))
+  const frameMs = (frameSize / sampleRate) * 1000
+  const vad = options?.vad ?? DEFAULT_GATE_CONFIG
+  const { frames, mask } = detectSpeechFrames(pcm, sampleRate, {
+    frameSize,
+    energyThreshold: options?.frameRmsThreshold ?? SPEECH_FRAME_RMS_THRESHOLD,
+    maxSpectralFlatness: vad.vadMaxSpectralFlatness,
+    minVoiceBandRatio: vad.vadMinVoiceBandRatio,
+    maxZeroCrossingRate: vad.vadMaxZeroCrossingRate,
+    minRunFrames: Math.max(1, Math.round(vad.vadMinRunMs / frameMs)),
+    hangoverFrames: Math.round(vad.vadHangoverMs / frameMs),
+  })
+  return {
+    frameSize,
+    speechEnergies: frames.map((frame, index) =>
+      mask[index] === 1 ? frame.rms * frame.rms * frameSize : 0,
+    ),
+    mask,
+  }
+}
+
+const toSpeechRegion = ({ frameSize, mask }: SpeechFrames): SpeechRegion | null => {
+  const firstFrame = mask.indexOf(1)
+  if (firstFrame === -1) {
+    return null
+  }
+  return { startSample: firstFrame * frameSize, endSample: (mask.lastIndexOf(1) + 1) * frameSize }
+}
+
+export const findSpeechRegion = (
+  pcm: Float32Array,
+  sampleRate: number,
+  options?: AlignOptions,
+): SpeechRegion | null => toSpeechRegion(detectAlignmentFrames(pcm, sampleRate, options))
+
+// 창 안에 든 발화 에너지가 가장 큰 시작 위치(프레임 경계). 차이가 1% 안이면 앞쪽을 고른다.
+const findLoudestWindowOffset = (
+  { frameSize, speechEnergies }: SpeechFrames,
+  sourceLength: number,
+  targetLength: number,
+  searchStart: number,
+  searchEnd: number,
+): number => {
+  const windowFrames = Math.floor(targetLength / frameSize)
+  const maxOffset = Math.max(0, sourceLength - targetLength)
+  const maxFrame = Math.floor(maxOffset / frameSize)
+  const firstFrame = Math.min(maxFrame, Math.max(0, Math.ceil(searchStart / frameSize)))
+  const lastFrame = Math.min(maxFrame, Math.max(firstFrame, Math.floor(searchEnd / frameSize)))
+
+  let windowEnergy = 0
+  for (let frame = firstFrame; frame < firstFrame + windowFrames; frame += 1) {
+    windowEnergy += speechEnergies[frame] ?? 0
+  }
+  let bestFrame = firstFrame
+  let bestEnergy = windowEnergy
+  for (let frame = firstFrame + 1; frame <= lastFrame; frame += 1) {
+    windowEnergy +=
+      (speechEnergies[frame + windowFrames - 1] ?? 0) - (speechEnergies[frame - 1] ?? 0)
+    if (windowEnergy > bestEnergy * (1 + WINDOW_ENERGY_TIE_RATIO)) {
+      bestEnergy = windowEnergy
+      bestFrame = frame
+    }
+  }
+  return Math.min(maxOffset, bestFrame * frameSize)
+}
+
+export const sliceWindow = (
+  pcm: Float32Array,
+  offsetSamples: number,
+  targetLength: number,
+): Float32Array => {
+  if (offsetSamples === 0 && pcm.length === targetLength) {
+    return pcm
+  }
+  const window = new Float32Array(targetLength)
+  const sourceStart = Math.max(0, offsetSamples)
+  const sourceEnd = Math.min(pcm.length, offsetSamples + targetLength)
+  if (sourceEnd > sourceStart) {
+    window.set(pcm.subarray(sourceStart, sourceEnd), sourceStart - offsetSamples)
+  }
+  return window
+}
+
+// 창을 옮길 수 있는 범위. 원본이 창보다 짧으면 0 채움이 생기는 음수 쪽으로만 움직인다.
+export const getWindowOffsetRange = (
+  sourceLength: number,
+  targetLength: number,
+): { min: number; max: number } => ({
+  min: Math.min(0, sourceLength - targetLength),
+  max: Math.max(0, sourceLength - targetLength),
+})
+
+/**
+ * 지정한 위치에서 창을 자른다. 발화 구간과 원본 길이는 자동 정렬 결과(base)를 그대로 물려받는다.
+ */
+export const placeManualWindow = (
+  pcm: Float32Array,
+  sampleRate: number,
+  targetLength: number,
+  offsetSamples: number,
+  base: SpeechAlignment,
+): AlignedWindow => {
+  const range = getWindowOffsetRange(pcm.length, targetLength)
+  const clampedOffset = Math.min(range.max, Math.max(range.min, Math.round(offsetSamples)))
+  return {
+    pcm: sliceWindow(pcm, clampedOffset, targetLength),
+    alignment: {
+      mode: AlignmentMode.Manual,
+      offsetSamples: clampedOffset,
+      offsetMs: Math.round((clampedOffset / sampleRate) * 1000),
+      sourceDurationMs: base.sourceDurationMs,
+      speechRegion: base.speechRegion,
+      autoOffsetMs: base.autoOffsetMs ?? base.offsetMs,
+    },
+  }
+}
+
+/**
+ * 발화 구간을 찾아 고정 길이 창 안으로 옮긴다.
+ * - 발화(+패딩)가 창보다 짧으면 가운데 정렬한다. 원본이 충분히 길면 창이 원본 밖으로 나가지 않게 맞춘다.
+ * - 발화(+패딩)가 창보다 길면 발화 에너지가 가장 많이 들어가는 위치로 자른다.
+ * 발화 구간은 게이트와 같은 스펙트럼 VAD 마스크로 정해서, 녹음 시작의 딸깍 소리나 기침이 창을 끌고 가지 않는다.
+ * - 발화를 못 찾으면 예전처럼 앞에서부터 자르거나 뒤를 0으로 채운다.
+ */
+export const alignSpeechWindow = (
+  pcm: Float32Array,
+  sampleRate: number,
+  targetLength: number,
+  options?: AlignOptions,
+): AlignedWindow => {
+  const paddingSamples = Math.round(((options?.paddingMs ?? ALIGN_PADDING_MS) * sampleRate) / 1000)
+  const speechFrames = detectAlignmentFrames(pcm, sampleRate, options)
+  const region = toSpeechRegion(speechFrames)
+  const sourceDurationMs = Math.round((pcm.length / sampleRate) * 1000)
+
+  let mode: AlignmentMode = AlignmentMode.Head
+  let offsetSamples = 0
+
+  if (region) {
+    const paddedStart = region.startSample - paddingSamples
+    const paddedEnd = region.endSample + paddingSamples
+
+    if (paddedEnd - paddedStart <= targetLength) {
+      mode = AlignmentMode.Centered
+      const center = Math.round((region.startSample + region.endSample) / 2)
+      offsetSamples = center - Math.round(targetLength / 2)
+      if (pcm.length >= targetLength) {
+        offsetSamples = Math.min(Math.max(0, offsetSamples), pcm.length - targetLength)
+      }
+    } else {
+      mode = AlignmentMode.Trimmed
+      offsetSamples = findLoudestWindowOffset(
+        speechFrames,
+        pcm.length,
+        targetLength,
+        paddedStart,
+        paddedEnd - targetLength,
+      )
+    }
+  }
+
+  return {
+    pcm: sliceWindow(pcm, offsetSamples, targetLength),
+    alignment: {
+      mode,
+      offsetSamples,
+      offsetMs: Math.round((offsetSamples / sampleRate) * 1000),
+      sourceDurationMs,
+      speechRegion: region,
+    },
+  }
+}
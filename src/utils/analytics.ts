@@ -0,0 +1,279 @@
+import type { GateDecision, GateReason } from './gate'
+import {
+  BORDERLINE_QUIET_RMS_THRESHOLD,
+  FLATLINE_RMS_THRESHOLD,
+  TOO_QUIET_RMS_THRESHOLD,
+} from './gateConfig'
+import { MissionKind, toTrainingLabel } from './mission'
+import { DEFAULT_OUTPUT_SPEC } from './outputSpec'
+import { excludeSupersededTakes, type StoredTake } from './takeStore'
+
+export type DecisionCounts = Record<GateDecision, number>
+
+export type BreakdownRow = {
+  key: string
+  total: number
+  decisions: DecisionCounts
+  // Ok를 뺀 판정 사유별 개수. 어느 사유가 이 그룹을 끌어내리는지 본다.
+  reasons: Partial<Record<GateReason, number>>
+}
+
+export type HistogramBin = {
+  start: number
+  end: number
+  count: number
+}
+
+export type MetricDistribution = {
+  count: number
+  // 값이 없는 take 수(예: 발화가 없어서 firstSpeechMs가 null).
+  missingCount: number
+  min: number | null
+  p10: number | null
+  median: number | null
+  p90: number | null
+  max: number | null
+  mean: number | null
+  bins: HistogramBin[]
+}
+
+export type RetryStats = {
+  acceptedCount: number
+  attemptCount: number
+  // PASS 하나를 얻을 때까지 앞에서 실패한 횟수의 평균. PASS가 없으면 null.
+  retriesPerAccepted: number | null
+  // distribution[n] = 재시도 n번 만에 PASS한 횟수. 마지막 칸은 RETRY_BUCKET_COUNT - 1번 이상.
+  distribution: number[]
+  // 마지막 PASS 뒤에 남은(포기했거나 아직 진행 중인) 시도.
+  unfinishedAttemptCount: number
+  byKeyword: { key: string; acceptedCount: number; retriesPerAccepted: number | null }[]
+}
+
+export type CollectionAnalytics = {
+  takeCount: number
+  sessionCount: number
+  decisions: DecisionCounts
+  byReason: BreakdownRow[]
+  byKeyword: BreakdownRow[]
+  byBrowser: BreakdownRow[]
+  byMimeType: BreakdownRow[]
+  // 같은 브라우저라도 녹음 경로(MediaRecorder 형식, PCM 캡처)에 따라 결과가 갈린다.
+  byBrowserMimeType: BreakdownRow[]
+  byInputDevice: BreakdownRow[]
+  metrics: {
+    rms: MetricDistribution
+    speechRatio: MetricDistribution
+    firstSpeechMs: MetricDistribution
+  }
+  retries: RetryStats
+}
+
+export const RETRY_BUCKET_COUNT = 5
+const UNKNOWN_KEY = '알 수 없음'
+
+// 게이트 임계값과 맞춘 구간이라 막대 하나가 판정 구간 하나에 대응한다.
+const RMS_BIN_EDGES = [
+  0,
+  FLATLINE_RMS_THRESHOLD,
+  TOO_QUIET_RMS_THRESHOLD,
+  BORDERLINE_QUIET_RMS_THRESHOLD,
+  0.03,
+  0.06,
+  0.125,
+  0.25,
+  0.5,
+  1,
+]
+const SPEECH_RATIO_BIN_EDGES = Array.from({ length: 11 }, (_, index) => index / 10)
+const FIRST_SPEECH_BIN_COUNT = 10
+
+const createDecisionCounts = (): DecisionCounts => ({ PASS: 0, AMBIG: 0, REJECT: 0 })
+
+// 위에서부터 먼저 맞는 것을 쓴다. Edge/Opera/Samsung 등도 UA에 Chrome, Safari를 같이 적는다.
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Edg(A|iOS)?\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux|CrOS/, 'Linux'],
+]
+
+const matchName = (patterns: [RegExp, string][], userAgent: string) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Other'
+
+/**
+ * userAgent에서 브라우저와 OS만 뽑는다. iOS에서는 Chrome/Firefox도 WebKit이라 OS를 같이 본다.
+ */
+export const describeBrowser = (userAgent: string): string =>
+  `${matchName(BROWSER_PATTERNS, userAgent)} (${matchName(OS_PATTERNS, userAgent)})`
+
+const toKeywordKey = (take: StoredTake) =>
+  take.keywordText ?? toTrainingLabel(take.missionKind ?? MissionKind.Keyword, take.keywordId)
+
+const buildBreakdown = (
+  takes: StoredTake[],
+  toKey: (take: StoredTake) => string,
+): BreakdownRow[] => {
+  const rows = new Map<string, BreakdownRow>()
+  for (const take of takes) {
+    const key = toKey(take) || UNKNOWN_KEY
+    const row = rows.get(key) ?? { key, total: 0, decisions: createDecisionCounts(), reasons: {} }
+    const { decision, reason } = take.gateResult
+    row.total += 1
+    row.decisions[decision] += 1
+    if (reason !== 'Ok') {
+      row.reasons[reason] = (row.reasons[reason] ?? 0) + 1
+    }
+    rows.set(key, row)
+  }
+  return [...rows.values()].sort((a, b) => b.total - a.total || a.key.localeCompare(b.key))
+}
+
+const percentile = (sorted: number[], ratio: number): number => {
+  const position = (sorted.length - 1) * ratio
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// 클립 길이는 캠페인마다 다르다(outputSpec). 섞여 있으면 가장 긴 클립을 기준으로 10칸으로 나눈다.
+const buildFirstSpeechBinEdges = (takes: StoredTake[]): number[] => {
+  // take 수만큼 인자를 펼치면 큰 저장소에서 RangeError가 나므로 reduce로 센다.
+  const clipDurationMs =
+    takes.length > 0
+      ? takes.reduce(
+          (max, take) => Math.max(max, (take.outputSpec ?? DEFAULT_OUTPUT_SPEC).durationMs),
+          0,
+        )
+      : DEFAULT_OUTPUT_SPEC.durationMs
+  return Array.from({ length: FIRST_SPEECH_BIN_COUNT + 1 }, (_, index) =>
+    Math.round((clipDurationMs * index) / FIRST_SPEECH_BIN_COUNT),
+  )
+}
+
+const summarizeMetric = (values: (number | null)[], edges: number[]): MetricDistribution => {
+  const sorted = values
+    .filter((value): value is number => value !== null && Number.isFinite(value))
+    .sort((a, b) => a - b)
+  const bins = edges
+    .slice(0, -1)
+    .map((start, index) => ({ start, end: edges[index + 1], count: 0 }))
+  for (const value of sorted) {
+    // 범위를 넘는 값은 양 끝 칸에 넣는다.
+    const index = bins.findIndex((bin) => value < bin.end)
+    bins[index === -1 ? bins.length - 1 : index].count += 1
+  }
+  const hasValues = sorted.length > 0
+  return {
+    count: sorted.length,
+    missingCount: values.length - sorted.length,
+    min: hasValues ? sorted[0] : null,
+    p10: hasValues ? percentile(sorted, 0.1) : null,
+    median: hasValues ? percentile(sorted, 0.5) : null,
+    p90: hasValues ? percentile(sorted, 0.9) : null,
+    max: hasValues ? sorted[sorted.length - 1] : null,
+    mean: hasValues ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : null,
+    bins,
+  }
+}
+
+// 세션 안에서 같은 미션을 녹음 순서로 훑으며 PASS 사이의 실패 횟수를 센다.
+const computeRetryStats = (takes: StoredTake[]): RetryStats => {
+  const sequences = new Map<string, StoredTake[]>()
+  for (const take of [...takes].sort((a, b) => a.recordedAt - b.recordedAt)) {
+    const key = `${take.sessionId}|${take.missionKind ?? MissionKind.Keyword}|${take.keywordId}`
+    sequences.set(key, [...(sequences.get(key) ?? []), take])
+  }
+
+  const distribution = new Array<number>(RETRY_BUCKET_COUNT).fill(0)
+  const keywordTotals = new Map<string, { acceptedCount: number; retryCount: number }>()
+  let acceptedCount = 0
+  let retryCount = 0
+  let unfinishedAttemptCount = 0
+
+  for (const sequence of sequences.values()) {
+    const keywordKey = toKeywordKey(sequence[0])
+    const keywordTotal = keywordTotals.get(keywordKey) ?? { acceptedCount: 0, retryCount: 0 }
+    let failures = 0
+    for (const take of sequence) {
+      if (take.gateResult.decision !== 'PASS') {
+        failures += 1
+        continue
+      }
+      acceptedCount += 1
+      retryCount += failures
+      keywordTotal.acceptedCount += 1
+      keywordTotal.retryCount += failures
+      distribution[Math.min(failures, RETRY_BUCKET_COUNT - 1)] += 1
+      failures = 0
+    }
+    unfinishedAttemptCount += failures
+    keywordTotals.set(keywordKey, keywordTotal)
+  }
+
+  return {
+    acceptedCount,
+    attemptCount: takes.length,
+    retriesPerAccepted: acceptedCount > 0 ? retryCount / acceptedCount : null,
+    distribution,
+    unfinishedAttemptCount,
+    byKeyword: [...keywordTotals]
+      .map(([key, total]) => ({
+        key,
+        acceptedCount: total.acceptedCount,
+        retriesPerAccepted: total.acceptedCount > 0 ? total.retryCount / total.acceptedCount : null,
+      }))
+      // 재시도가 많은 키워드가 위로. 아직 PASS가 없는 키워드는 맨 아래.
+      .sort((a, b) => (b.retriesPerAccepted ?? -1) - (a.retriesPerAccepted ?? -1)),
+  }
+}
+
+/**
+ * 저장된 take 기록만으로 만드는 수집 품질 집계. 브라우저 API를 쓰지 않아 Node 스크립트에서도 돈다.
+ */
+export const computeCollectionAnalytics = (allTakes: StoredTake[]): CollectionAnalytics => {
+  const takes = excludeSupersededTakes(allTakes)
+  const decisions = createDecisionCounts()
+  for (const take of takes) {
+    decisions[take.gateResult.decision] += 1
+  }
+
+  return {
+    takeCount: takes.length,
+    sessionCount: new Set(takes.map((take) => take.sessionId)).size,
+    decisions,
+    byReason: buildBreakdown(takes, (take) => take.gateResult.reason),
+    byKeyword: buildBreakdown(takes, toKeywordKey),
+    byBrowser: buildBreakdown(takes, (take) => describeBrowser(take.device.userAgent)),
+    byMimeType: buildBreakdown(takes, (take) => take.sourceMimeType),
+    byBrowserMimeType: buildBreakdown(
+      takes,
+      (take) => `${describeBrowser(take.device.userAgent)} · ${take.sourceMimeType}`,
+    ),
+    byInputDevice: buildBreakdown(takes, (take) => take.device.inputDeviceLabel ?? UNKNOWN_KEY),
+    metrics: {
+      rms: summarizeMetric(
+        takes.map((take) => take.gateResult.debugMetrics.rms),
+        RMS_BIN_EDGES,
+      ),
+      speechRatio: summarizeMetric(
+        takes.map((take) => take.gateResult.debugMetrics.speechRatio),
+        SPEECH_RATIO_BIN_EDGES,
+      ),
+      firstSpeechMs: summarizeMetric(
+        takes.map((take) => take.gateResult.debugMetrics.firstSpeechMs),
+        buildFirstSpeechBinEdges(takes),
+      ),
+    },
+    retries: computeRetryStats(takes),
+  }
+}
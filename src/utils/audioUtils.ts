@@ -1,13 +1,58 @@
-const TARGET_SAMPLE_RATE = 16000
-const TARGET_DURATION_MS = 2000
-const TARGET_SAMPLE_COUNT = (TARGET_SAMPLE_RATE * TARGET_DURATION_MS) / 1000
-const WAV_MIME_TYPE = 'audio/wav'
+// 디코딩(convertBlobToClip)만 브라우저 API를 쓰고, 모노 믹스/리샘플링/인코딩은 순수 함수라
+// 같은 PCM을 넣으면 브라우저와 Node에서 같은 파일이 나온다.
 
-export type WavConversionResult = {
+import {
+  alignSpeechWindow,
+  placeManualWindow,
+  type AlignVadSettings,
+  type SpeechAlignment,
+} from './alignment'
+import { encodeFlac } from './flacEncoder'
+import {
+  AudioContainer,
+  DEFAULT_OUTPUT_SPEC,
+  getOutputMimeType,
+  getOutputSampleCount,
+  SampleFormat,
+  type OutputSpec,
+} from './outputSpec'
+import { resamplePcm } from './resampler'
+
+const WAV_FORMAT_PCM = 1
+const WAV_FORMAT_IEEE_FLOAT = 3
+
+const BITS_PER_SAMPLE: Record<SampleFormat, number> = {
+  [SampleFormat.Pcm16]: 16,
+  [SampleFormat.Pcm24]: 24,
+  [SampleFormat.Float32]: 32,
+}
+
+export type PcmClip = {
+  pcm: Float32Array
+  sampleRate: number
+}
+
+export type ClipConversionResult = {
   blob: Blob
+  // 양자화 전 Float32 PCM. 게이트/지문은 이 값을 본다.
   pcm: Float32Array
+  // 창을 고르기 전 전체 PCM(출력 샘플레이트). 창 위치를 직접 옮길 때 여기서 다시 자른다.
+  source: PcmClip
   durationMs: number
   sampleRate: number
+  spec: OutputSpec
+  alignment: SpeechAlignment
+  preRollMs: number
+}
+
+export type ClipConversionOptions = {
+  // 없으면 16kHz 16-bit 2초 WAV.
+  spec?: OutputSpec
+  paddingMs?: number
+  frameRmsThreshold?: number
+  vad?: AlignVadSettings
+  // 녹음 시작 전 링 버퍼에서 가져온 오디오. 본 녹음 앞에 이어 붙인 뒤 창을 고른다.
+  preRoll?: PcmClip | null
 }
 
 const getAudioContextCtor = (): typeof AudioContext => {
@@ -17,17 +62,20 @@ const getAudioContextCtor = (): typeof AudioContext => {
   return window.AudioContext
 }
 
-const mixToMono = (buffer: AudioBuffer): Float32Array => {
-  if (buffer.numberOfChannels <= 1) {
-    return buffer.getChannelData(0)
+/**
+ * 채널 평균으로 mono를 만든다. 채널 길이가 다르면 가장 짧은 길이에 맞춘다.
+ */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 0) {
+    return new Float32Array(0)
+  }
+  if (channels.length === 1) {
+    return channels[0]
   }
 
-  const mono = new Float32Array(buffer.length)
-  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) =>
-    buffer.getChannelData(index),
-  )
-
-  for (let frame = 0; frame < buffer.length; frame += 1) {
+  const length = Math.min(...channels.map((channel) => channel.length))
+  const mono = new Float32Array(length)
+  for (let frame = 0; frame < length; frame += 1) {
     let sum = 0
     for (const channel of channels) {
       sum += channel[frame]
@@ -38,32 +86,42 @@ const mixToMono = (buffer: AudioBuffer): Float32Array => {
   return mono
 }
 
-const resampleTo16k = async (input: Float32Array, sampleRate: number): Promise<Float32Array> => {
-  if (sampleRate === TARGET_SAMPLE_RATE) {
-    return input
-  }
-
-  const targetLength = Math.max(1, Math.round((input.length * TARGET_SAMPLE_RATE) / sampleRate))
-  const offlineContext = new OfflineAudioContext(1, targetLength, TARGET_SAMPLE_RATE)
-  const sourceBuffer = offlineContext.createBuffer(1, input.length, sampleRate)
-  sourceBuffer.copyToChannel(new Float32Array(input), 0)
-
-  const source = offlineContext.createBufferSource()
-  source.buffer = sourceBuffer
-  source.connect(offlineContext.destination)
-  source.start(0)
+const concatPcm = (head: Float32Array, tail: Float32Array): Float32Array => {
+  const joined = new Float32Array(head.length + tail.length)
+  joined.set(head, 0)
+  joined.set(tail, head.length)
+  return joined
+}
 
-  const renderedBuffer = await offlineContext.startRendering()
-  return renderedBuffer.getChannelData(0)
+// WAV 정수 샘플과 FLAC이 같은 값을 담도록 양자화는 한 곳에서만 한다.
+const quantizePcm = (samples: Float32Array, bitsPerSample: number): Int32Array => {
+  const negativeScale = 2 ** (bitsPerSample - 1)
+  const positiveScale = negativeScale - 1
+  const quantized = new Int32Array(samples.length)
+  for (let index = 0; index < samples.length; index += 1) {
+    const sample = Math.max(-1, Math.min(1, samples[index]))
+    quantized[index] = Math.round(sample < 0 ? sample * negativeScale : sample * positiveScale)
+  }
+  return quantized
 }
 
-const encodeWavPcm16 = (samples: Float32Array, sampleRate: number): Blob => {
+const encodeWav = (
+  samples: Float32Array,
+  sampleRate: number,
+  format: SampleFormat,
+): Uint8Array<ArrayBuffer> => {
+  const isFloat = format === SampleFormat.Float32
   const channelCount = 1
-  const bytesPerSample = 2
+  const bitsPerSample = BITS_PER_SAMPLE[format]
+  const bytesPerSample = bitsPerSample / 8
   const byteRate = sampleRate * channelCount * bytesPerSample
   const blockAlign = channelCount * bytesPerSample
   const dataSize = samples.length * bytesPerSample
-  const buffer = new ArrayBuffer(44 + dataSize)
+  // float WAV는 fmt 확장 크기(cbSize)와 fact 청크가 필요하다.
+  const fmtSize = isFloat ? 18 : 16
+  const factSize = isFloat ? 12 : 0
+  const headerSize = 12 + 8 + fmtSize + factSize + 8
+  const buffer = new ArrayBuffer(headerSize + dataSize)
   const view = new DataView(buffer)
 
   let offset = 0
@@ -83,57 +141,140 @@ const encodeWavPcm16 = (samples: Float32Array, sampleRate: number): Blob => {
   }
 
   writeString('RIFF')
-  writeUint32(36 + dataSize)
+  writeUint32(headerSize - 8 + dataSize)
   writeString('WAVE')
   writeString('fmt ')
-  writeUint32(16)
-  writeUint16(1)
+  writeUint32(fmtSize)
+  writeUint16(isFloat ? WAV_FORMAT_IEEE_FLOAT : WAV_FORMAT_PCM)
   writeUint16(channelCount)
   writeUint32(sampleRate)
   writeUint32(byteRate)
   writeUint16(blockAlign)
-  writeUint16(16)
+  writeUint16(bitsPerSample)
+  if (isFloat) {
+    writeUint16(0)
+    writeString('fact')
+    writeUint32(4)
+    writeUint32(samples.length)
+  }
   writeString('data')
   writeUint32(dataSize)
 
-  for (let index = 0; index < samples.length; index += 1) {
-    const sample = Math.max(-1, Math.min(1, samples[index]))
-    const pcm = sample < 0 ? sample * 0x8000 : sample * 0x7fff
-    view.setInt16(offset, pcm, true)
-    offset += 2
+  if (isFloat) {
+    for (let index = 0; index < samples.length; index += 1) {
+      view.setFloat32(offset, Math.max(-1, Math.min(1, samples[index])), true)
+      offset += 4
+    }
+    return new Uint8Array(buffer)
+  }
+
+  const quantized = quantizePcm(samples, bitsPerSample)
+  for (let index = 0; index < quantized.length; index += 1) {
+    if (bytesPerSample === 2) {
+      view.setInt16(offset, quantized[index], true)
+    } else {
+      // 24-bit little endian
+      const value = quantized[index]
+      view.setUint8(offset, value & 0xff)
+      view.setUint8(offset + 1, (value >> 8) & 0xff)
+      view.setUint8(offset + 2, (value >> 16) & 0xff)
+    }
+    offset += bytesPerSample
   }
 
-  return new Blob([buffer], { type: WAV_MIME_TYPE })
+  return new Uint8Array(buffer)
 }
 
-const normalizeToFixedSamples = (input: Float32Array, targetLength: number): Float32Array => {
-  if (input.length === targetLength) {
-    return input
+/**
+ * mono Float32 PCM을 출력 형식(WAV 16/24/float32, FLAC 16/24)의 파일로 만든다.
+ */
+export const encodeClip = (pcm: Float32Array, spec: OutputSpec): Blob => {
+  const bitsPerSample = BITS_PER_SAMPLE[spec.sampleFormat]
+  const bytes =
+    spec.container === AudioContainer.Flac
+      ? encodeFlac(quantizePcm(pcm, bitsPerSample), spec.sampleRate, bitsPerSample)
+      : encodeWav(pcm, spec.sampleRate, spec.sampleFormat)
+  return new Blob([bytes], { type: getOutputMimeType(spec) })
+}
+
+/**
+ * 이미 mono Float32 PCM으로 받은 입력(AudioWorklet 경로)을 디코딩 없이 같은 파이프라인에 태운다.
+ */
+export const convertPcmToClip = (
+  pcm: Float32Array,
+  sampleRate: number,
+  options?: ClipConversionOptions,
+): ClipConversionResult => {
+  const spec = options?.spec ?? DEFAULT_OUTPUT_SPEC
+  const targetRate = spec.sampleRate
+  const preRoll = options?.preRoll?.pcm.length ? options.preRoll : null
+  let resampled: Float32Array
+  if (!preRoll) {
+    resampled = resamplePcm(pcm, sampleRate, targetRate)
+  } else if (preRoll.sampleRate === sampleRate) {
+    // 같은 레이트면 먼저 붙인 뒤 한 번에 리샘플링해서 이음새가 생기지 않게 한다.
+    resampled = resamplePcm(concatPcm(preRoll.pcm, pcm), sampleRate, targetRate)
+  } else {
+    resampled = concatPcm(
+      resamplePcm(preRoll.pcm, preRoll.sampleRate, targetRate),
+      resamplePcm(pcm, sampleRate, targetRate),
+    )
   }
 
-  const normalized = new Float32Array(targetLength)
-  normalized.set(input.subarray(0, targetLength))
-  return normalized
+  const { pcm: fixedLengthPcm, alignment } = alignSpeechWindow(
+    resampled,
+    targetRate,
+    getOutputSampleCount(spec),
+    {
+      paddingMs: options?.paddingMs,
+      frameRmsThreshold: options?.frameRmsThreshold,
+      vad: options?.vad,
+    },
+  )
+
+  return {
+    blob: encodeClip(fixedLengthPcm, spec),
+    pcm: fixedLengthPcm,
+    source: { pcm: resampled, sampleRate: targetRate },
+    durationMs: Math.round((fixedLengthPcm.length / targetRate) * 1000),
+    sampleRate: targetRate,
+    spec,
+    alignment,
+    preRollMs: preRoll ? Math.round((preRoll.pcm.length / preRoll.sampleRate) * 1000) : 0,
+  }
 }
 
-export const convertBlobTo16kMonoWav = async (blob: Blob): Promise<WavConversionResult> => {
+/**
+ * 이미 변환한 take에서 창 위치만 바꿔 다시 자르고 인코딩한다. 형식과 pre-roll은 base를 따른다.
+ */
+export const convertWindowToClip = (
+  base: ClipConversionResult,
+  offsetSamples: number,
+): ClipConversionResult => {
+  const { pcm, alignment } = placeManualWindow(
+    base.source.pcm,
+    base.sampleRate,
+    getOutputSampleCount(base.spec),
+    offsetSamples,
+    base.alignment,
+  )
+  return { ...base, blob: encodeClip(pcm, base.spec), pcm, alignment }
+}
+
+export const convertBlobToClip = async (
+  blob: Blob,
+  options?: ClipConversionOptions,
+): Promise<ClipConversionResult> => {
   const AudioContextCtor = getAudioContextCtor()
   const audioContext = new AudioContextCtor()
 
   try {
     const arrayBuffer = await blob.arrayBuffer()
     const decodedBuffer = await audioContext.decodeAudioData(arrayBuffer)
-    const monoData = mixToMono(decodedBuffer)
-    const resampled = await resampleTo16k(monoData, decodedBuffer.sampleRate)
-    const fixedLengthPcm = normalizeToFixedSamples(resampled, TARGET_SAMPLE_COUNT)
-    const wavBlob = encodeWavPcm16(fixedLengthPcm, TARGET_SAMPLE_RATE)
-
-    return {
-      blob: wavBlob,
-      pcm: fixedLengthPcm,
-      durationMs: Math.round((fixedLengthPcm.length / TARGET_SAMPLE_RATE) * 1000),
-      sampleRate: TARGET_SAMPLE_RATE,
-    }
+    const channels = Array.from({ length: decodedBuffer.numberOfChannels }, (_, index) =>
+      decodedBuffer.getChannelData(index),
+    )
+    return convertPcmToClip(mixToMono(channels), decodedBuffer.sampleRate, options)
   } finally {
     await audioContext.close()
   }
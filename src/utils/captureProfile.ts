@@ -0,0 +1,135 @@
+export const CaptureProfileId = {
+  // 브라우저 음성 처리를 모두 끈다. 기기마다 소리가 같은 방식으로 들어와야 게이트 기준이 맞는다.
+  Raw: 'raw',
+  // 브라우저 기본값(화상 통화용 처리)을 그대로 쓴다. 비교 수집이나 지원 대응용.
+  Browser: 'browser',
+} as const
+
+export type CaptureProfileId = (typeof CaptureProfileId)[keyof typeof CaptureProfileId]
+
+export const PROCESSING_KEYS = ['echoCancellation', 'noiseSuppression', 'autoGainControl'] as const
+
+export type ProcessingKey = (typeof PROCESSING_KEYS)[number]
+
+/**
+ * getUserMedia에 요청할 음성 처리. profileId는 take마다 남아서 어떤 조건으로 녹음했는지 나중에 알 수 있다.
+ */
+export type CaptureProfile = Record<ProcessingKey, boolean> & {
+  profileId: string
+}
+
+export type CaptureSettings = {
+  profileId: string
+  requested: Record<ProcessingKey, boolean>
+  // getSettings()가 알려준 값. 항목을 모르는 브라우저(Safari 일부)는 null.
+  applied: Record<ProcessingKey, boolean | null>
+  // 요청과 다르게 적용된 항목. 값을 알려주지 않은 항목은 넣지 않는다.
+  ignored: ProcessingKey[]
+  channelCount: number | null
+  // 장치가 실제로 돌고 있는 샘플레이트. 출력 샘플레이트(outputSpec)와 다를 수 있다.
+  sampleRate: number | null
+}
+
+export const DEFAULT_CAPTURE_PROFILE: CaptureProfile = {
+  profileId: CaptureProfileId.Raw,
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+}
+
+export const CAPTURE_PROFILES: Record<CaptureProfileId, CaptureProfile> = {
+  [CaptureProfileId.Raw]: DEFAULT_CAPTURE_PROFILE,
+  [CaptureProfileId.Browser]: {
+    profileId: CaptureProfileId.Browser,
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: true,
+  },
+}
+
+export const PROCESSING_LABELS: Record<ProcessingKey, string> = {
+  echoCancellation: '에코 제거',
+  noiseSuppression: '잡음 억제',
+  autoGainControl: '자동 음량 조절',
+}
+
+const captureProfileError = (message: string) => new DOMException(message, 'CaptureProfileError')
+
+const isCaptureProfileId = (value: string): value is CaptureProfileId =>
+  Object.prototype.hasOwnProperty.call(CAPTURE_PROFILES, value)
+
+/**
+ * "raw" 같은 프로필 id나 { "profile": "raw", "autoGainControl": true } 같은 덮어쓰기를 받는다.
+ * 틀리면 CaptureProfileError를 던진다.
+ */
+export const resolveCaptureProfile = (input: unknown): CaptureProfile => {
+  if (input === undefined || input === null || input === '') {
+    return DEFAULT_CAPTURE_PROFILE
+  }
+  if (typeof input === 'string') {
+    if (!isCaptureProfileId(input)) {
+      throw captureProfileError(`unknown capture profile: ${input}`)
+    }
+    return CAPTURE_PROFILES[input]
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw captureProfileError('capture profile must be a profile id or an object')
+  }
+
+  const { id, profile, ...overrides } = input as Record<string, unknown>
+  const base = resolveCaptureProfile(profile ?? CaptureProfileId.Raw)
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(PROCESSING_KEYS as readonly string[]).includes(key)) {
+      throw captureProfileError(`unknown capture profile key: ${key}`)
+    }
+    if (typeof value !== 'boolean') {
+      throw captureProfileError(`${key} must be a boolean`)
+    }
+  }
+  const hasOverrides = Object.keys(overrides).length > 0
+  const profileId =
+    typeof id === 'string' && id.trim()
+      ? id.trim()
+      : hasOverrides
+        ? `${base.profileId}+custom`
+        : base.profileId
+
+  return { ...base, ...(overrides as Partial<CaptureProfile>), profileId }
+}
+
+// 음성 처리 값은 ideal로 요청한다. exact로 걸면 지원하지 않는 브라우저에서 마이크 자체가 안 열린다.
+export const buildAudioConstraints = (
+  profile: CaptureProfile,
+  deviceId: string | null,
+): MediaTrackConstraints => ({
+  echoCancellation: profile.echoCancellation,
+  noiseSuppression: profile.noiseSuppression,
+  autoGainControl: profile.autoGainControl,
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+})
+
+export const readCaptureSettings = (
+  track: MediaStreamTrack,
+  profile: CaptureProfile,
+): CaptureSettings => {
+  const settings = track.getSettings()
+  const requested = {} as Record<ProcessingKey, boolean>
+  const applied = {} as Record<ProcessingKey, boolean | null>
+  const ignored: ProcessingKey[] = []
+  for (const key of PROCESSING_KEYS) {
+    const value = settings[key]
+    requested[key] = profile[key]
+    applied[key] = typeof value === 'boolean' ? value : null
+    if (applied[key] !== null && applied[key] !== requested[key]) {
+      ignored.push(key)
+    }
+  }
+  return {
+    profileId: profile.profileId,
+    requested,
+    applied,
+    ignored,
+    channelCount: settings.channelCount ?? null,
+    sampleRate: settings.sampleRate ?? null,
+  }
+}
@@ -0,0 +1,249 @@
+import type { GateDecision } from './gate'
+import { MissionKind, toTrainingLabel, UNKNOWN_LABEL } from './mission'
+import { DEFAULT_OUTPUT_SPEC, getOutputFileExtension } from './outputSpec'
+import { summarizeTakeReviews, type TakeConsensus, type TakeReview } from './review'
+import { excludeSupersededTakes, type StoredTake } from './takeStore'
+import { buildTakeMetadata, type TakeMetadata } from './uploader'
+import { createZip, type ZipEntryInput } from './zipWriter'
+
+const MANIFEST_CSV_PATH = 'manifest.csv'
+const MANIFEST_JSONL_PATH = 'manifest.jsonl'
+const REVIEWS_CSV_PATH = 'reviews.csv'
+
+export type DatasetExportOptions = {
+  includeDecisions?: GateDecision[]
+  // 검수 결과. 넣으면 manifest에 합의 열이 붙고 reviews.csv가 따로 생긴다.
+  reviews?: TakeReview[]
+}
+
+export type ManifestRow = TakeMetadata & {
+  path: string
+  mimeType: string
+  // 게이트 판정은 gate에 그대로 두고 사람 판정은 옆에 따로 둔다.
+  review: TakeConsensus
+  reviews: TakeReview[]
+}
+
+type ExportFile = {
+  path: string
+  take: StoredTake
+}
+
+// 폴더 이름으로 쓸 수 없는 문자만 걸러낸다. 한글 키워드 id는 그대로 둔다.
+const toFolderName = (label: string) => {
+  const sanitized = label.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^\.+/, '')
+  return sanitized || UNKNOWN_LABEL
+}
+
+const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Speech Commands 배치: <label>/<speakerId>_nohash_<n>.wav (FLAC 출력이면 .flac)
+ * label은 키워드 id, 필러 단어는 _unknown_, 배경 소리는 _silence_.
+ * n은 (라벨, 화자)마다 녹음 순서대로 0부터 센다.
+ */
+export const planDatasetFiles = (takes: StoredTake[]): ExportFile[] => {
+  const counters = new Map<string, number>()
+  return [...takes]
+    .sort((a, b) => a.recordedAt - b.recordedAt)
+    .map((take) => {
+      const folder = toFolderName(
+        toTrainingLabel(take.missionKind ?? MissionKind.Keyword, take.keywordId),
+      )
+      const counterKey = `${folder}/${take.speakerId}`
+      const index = counters.get(counterKey) ?? 0
+      counters.set(counterKey, index + 1)
+      const extension = getOutputFileExtension(take.outputSpec ?? DEFAULT_OUTPUT_SPEC)
+      return { path: `${folder}/${take.speakerId}_nohash_${index}.${extension}`, take }
+    })
+}
+
+export const buildManifestRows = (
+  files: ExportFile[],
+  reviews: TakeReview[] = [],
+): ManifestRow[] =>
+  files.map(({ path, take }) => {
+    const metadata = buildTakeMetadata(take)
+    const takeReviews = reviews.filter((review) => review.takeId === take.id)
+    return {
+      path,
+      mimeType: take.wav.type || 'audio/wav',
+      ...metadata,
+      review: summarizeTakeReviews(takeReviews, metadata.label),
+      reviews: takeReviews,
+    }
+  })
+
+// debugMetrics는 스칼라 값만 열로 펼친다. 배열 같은 큰 값은 jsonl에만 남긴다.
+const collectMetricColumns = (rows: ManifestRow[]): string[] => {
+  const columns: string[] = []
+  for (const row of rows) {
+    for (const [key, value] of Object.entries(row.gate.debugMetrics)) {
+      if ((value === null || typeof value !== 'object') && !columns.includes(key)) {
+        columns.push(key)
+      }
+    }
+  }
+  return columns
+}
+
+export const buildManifestCsv = (rows: ManifestRow[]): string => {
+  const metricColumns = collectMetricColumns(rows)
+  const header = [
+    'path',
+    'take_id',
+    'session_id',
+    'speaker_id',
+    'keyword_id',
+    'keyword_text',
+    'mission_kind',
+    'label',
+    'decision',
+    'reason',
+    'gate_profile',
+    'review_count',
+    'review_verdict',
+    'review_label',
+    'review_agreement',
+    ...metricColumns,
+    'mime_type',
+    'source_mime_type',
+    'sample_rate',
+    'sample_format',
+    'output_preset',
+    'duration_ms',
+    'window_mode',
+    'window_offset_ms',
+    'auto_window_offset_ms',
+    'pre_roll_ms',
+    'input_device',
+    'capture_profile',
+    'capture_channel_count',
+    'capture_sample_rate',
+    'echo_cancellation',
+    'noise_suppression',
+    'auto_gain_control',
+    'recorded_at',
+  ]
+
+  const lines = rows.map((row) => {
+    const metrics = row.gate.debugMetrics as Record<string, unknown>
+    // 음성 처리 열은 실제로 적용된 값이다. 요청한 값은 jsonl의 device.capture에 있다.
+    const capture = row.device.capture
+    return [
+      row.path,
+      row.takeId,
+      row.sessionId,
+      row.speakerId,
+      row.keywordId,
+      row.keywordText,
+      row.missionKind,
+      row.label,
+      row.gate.decision,
+      row.gate.reason,
+      row.gate.profileId,
+      row.review.reviewCount,
+      row.review.verdict,
+      row.review.label,
+      row.review.reviewCount > 0 ? row.review.agreement : null,
+      ...metricColumns.map((column) => metrics[column]),
+      row.mimeType,
+      row.sourceMimeType,
+      row.sampleRate,
+      row.outputSpec.sampleFormat,
+      row.outputSpec.presetId,
+      row.durationMs,
+      row.alignment.mode,
+      row.alignment.offsetMs,
+      row.alignment.autoOffsetMs,
+      row.preRollMs,
+      row.device.inputDeviceLabel,
+      capture?.profileId,
+      capture?.channelCount,
+      capture?.sampleRate,
+      capture?.applied.echoCancellation,
+      capture?.applied.noiseSuppression,
+      capture?.applied.autoGainControl,
+      row.recordedAt,
+    ]
+      .map(escapeCsvCell)
+      .join(',')
+  })
+
+  return `${[header.join(','), ...lines].join('\n')}\n`
+}
+
+// 검수 한 건당 한 줄. 원래 게이트 판정을 옆에 두어 게이트 정확도를 바로 계산할 수 있게 한다.
+export const buildReviewsCsv = (rows: ManifestRow[]): string => {
+  const header = [
+    'path',
+    'take_id',
+    'label',
+    'gate_decision',
+    'gate_reason',
+    'gate_profile',
+    'reviewer_id',
+    'verdict',
+    'review_label',
+    'reason',
+    'reviewed_at',
+  ]
+  const lines = rows.flatMap((row) =>
+    row.reviews.map((review) =>
+      [
+        row.path,
+        row.takeId,
+        row.label,
+        row.gate.decision,
+        row.gate.reason,
+        row.gate.profileId,
+        review.reviewerId,
+        review.verdict,
+        review.label,
+        review.reason,
+        new Date(review.reviewedAt).toISOString(),
+      ]
+        .map(escapeCsvCell)
+        .join(','),
+    ),
+  )
+  return `${[header.join(','), ...lines].join('\n')}\n`
+}
+
+export const buildManifestJsonl = (rows: ManifestRow[]): string =>
+  rows.map((row) => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '')
+
+export const createDatasetZip = async (
+  takes: StoredTake[],
+  options?: DatasetExportOptions,
+): Promise<Blob> => {
+  const includeDecisions = options?.includeDecisions ?? ['PASS', 'AMBIG', 'REJECT']
+  const files = planDatasetFiles(
+    excludeSupersededTakes(takes).filter((take) =>
+      includeDecisions.includes(take.gateResult.decision),
+    ),
+  )
+  const rows = buildManifestRows(files, options?.reviews)
+  const exportedAt = new Date()
+
+  const entries: ZipEntryInput[] = files.map(({ path, take }) => ({
+    path,
+    data: take.wav,
+    modifiedAt: new Date(take.recordedAt),
+  }))
+  entries.push(
+    { path: MANIFEST_CSV_PATH, data: buildManifestCsv(rows), modifiedAt: exportedAt },
+    { path: MANIFEST_JSONL_PATH, data: buildManifestJsonl(rows), modifiedAt: exportedAt },
+  )
+  if (options?.reviews?.length) {
+    entries.push({ path: REVIEWS_CSV_PATH, data: buildReviewsCsv(rows), modifiedAt: exportedAt })
+  }
+
+  return createZip(entries)
+}
@@ -0,0 +1,55 @@
+import type { CaptureSettings } from './captureProfile'
+
+// MediaRecorder에 순서대로 물어보는 녹음 형식. 진단 묶음에도 각각의 지원 여부를 싣는다.
+export const RECORDER_MIME_CANDIDATES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/mp4',
+  'audio/ogg;codecs=opus',
+] as const
+
+export type DeviceInfo = {
+  userAgent: string
+  platform: string
+  language: string
+  inputDeviceLabel: string | null
+  // 마이크를 열 때 요청한 음성 처리와 실제 적용된 값. 이 필드가 생기기 전에 저장된 take는 없다.
+  capture?: CaptureSettings
+}
+
+export const collectDeviceInfo = (
+  stream: MediaStream | null,
+  capture: CaptureSettings | null = null,
+): DeviceInfo => {
+  const track = stream?.getAudioTracks()[0] ?? null
+  return {
+    userAgent: typeof navigator === 'undefined' ? 'unknown' : navigator.userAgent,
+    platform: typeof navigator === 'undefined' ? 'unknown' : navigator.platform,
+    language: typeof navigator === 'undefined' ? 'unknown' : navigator.language,
+    inputDeviceLabel: track?.label || null,
+    ...(capture ? { capture } : {}),
+  }
+}
+
+const INPUT_DEVICE_STORAGE_KEY = 'kws.audioInputDeviceId'
+
+// 고른 마이크는 브라우저(프로필)마다 기억한다. deviceId는 origin마다 다르고 개인정보가 아니다.
+export const loadPreferredInputDeviceId = (): string | null => {
+  try {
+    return window.localStorage.getItem(INPUT_DEVICE_STORAGE_KEY) || null
+  } catch {
+    return null
+  }
+}
+
+export const savePreferredInputDeviceId = (deviceId: string | null) => {
+  try {
+    if (deviceId) {
+      window.localStorage.setItem(INPUT_DEVICE_STORAGE_KEY, deviceId)
+    } else {
+      window.localStorage.removeItem(INPUT_DEVICE_STORAGE_KEY)
+    }
+  } catch {
+    // localStorage를 못 쓰면 이번 탭에서만 쓴다.
+  }
+}
@@ -0,0 +1,182 @@
+import type { SpeechAlignment } from './alignment'
+import type { CaptureSettings } from './captureProfile'
+import { RECORDER_MIME_CANDIDATES } from './deviceInfo'
+import { getRecentEvents, type LogEvent } from './eventLog'
+import type { GateResult } from './gate'
+import { DEFAULT_OUTPUT_SPEC, getOutputFileExtension, type OutputSpec } from './outputSpec'
+import { isAudioWorkletSupported } from './pcmCapture'
+import { createZip, type ZipEntryInput } from './zipWriter'
+
+const DIAGNOSTIC_SCHEMA_VERSION = 1
+const DIAGNOSTIC_JSON_PATH = 'diagnostics.json'
+const LAST_TAKE_BASENAME = 'last-take'
+
+export type TrackDiagnostics = {
+  label: string
+  readyState: MediaStreamTrackState
+  enabled: boolean
+  muted: boolean
+  settings: MediaTrackSettings
+  constraints: MediaTrackConstraints
+}
+
+export type EnvironmentDiagnostics = {
+  userAgent: string
+  platform: string
+  language: string
+  online: boolean
+  secureContext: boolean
+  hardwareConcurrency: number | null
+  hasGetUserMedia: boolean
+  hasMediaRecorder: boolean
+  hasAudioWorklet: boolean
+  // 후보 형식마다 MediaRecorder.isTypeSupported 결과. MediaRecorder가 없으면 빈 객체.
+  mimeTypes: Record<string, boolean>
+  // Permissions API가 없거나 microphone을 모르는 브라우저(Firefox 일부)는 null.
+  micPermission: PermissionState | null
+  storage: { usageBytes: number | null; quotaBytes: number | null } | null
+  track: TrackDiagnostics | null
+}
+
+// 진단을 보낼 때 녹음 화면이 어떤 상태였는지.
+export type RecorderDiagnostics = {
+  status: string
+  errorName: string | null
+  captureBackend: string | null
+  mimeType: string | null
+  captureSettings: CaptureSettings | null
+}
+
+export type DiagnosticTake = {
+  blob: Blob
+  keywordId: string | null
+  gateResult: GateResult | null
+  alignment: SpeechAlignment | null
+  outputSpec: OutputSpec | null
+  measuredDurationMs: number | null
+}
+
+export type DiagnosticBundleInput = {
+  speakerId: string
+  sessionId: string | null
+  stream: MediaStream | null
+  recorder: RecorderDiagnostics
+  lastTake: DiagnosticTake | null
+}
+
+export type DiagnosticReport = {
+  schemaVersion: number
+  createdAt: string
+  page: string
+  speakerId: string
+  sessionId: string | null
+  environment: EnvironmentDiagnostics
+  recorder: RecorderDiagnostics
+  lastTake: (Omit<DiagnosticTake, 'blob'> & { path: string; sizeBytes: number }) | null
+  events: LogEvent[]
+}
+
+const describeTrack = (stream: MediaStream | null): TrackDiagnostics | null => {
+  const track = stream?.getAudioTracks()[0]
+  if (!track) {
+    return null
+  }
+  return {
+    label: track.label,
+    readyState: track.readyState,
+    enabled: track.enabled,
+    muted: track.muted,
+    settings: track.getSettings(),
+    constraints: track.getConstraints(),
+  }
+}
+
+const queryMicPermission = async (): Promise<PermissionState | null> => {
+  try {
+    const status = await navigator.permissions.query({ name: 'microphone' as PermissionName })
+    return status.state
+  } catch {
+    return null
+  }
+}
+
+const estimateStorage = async (): Promise<EnvironmentDiagnostics['storage']> => {
+  try {
+    const estimate = await navigator.storage.estimate()
+    return { usageBytes: estimate.usage ?? null, quotaBytes: estimate.quota ?? null }
+  } catch {
+    return null
+  }
+}
+
+export const collectEnvironmentDiagnostics = async (
+  stream: MediaStream | null,
+): Promise<EnvironmentDiagnostics> => {
+  const hasMediaRecorder = typeof MediaRecorder !== 'undefined'
+  const mimeTypes: Record<string, boolean> = {}
+  if (hasMediaRecorder && MediaRecorder.isTypeSupported) {
+    for (const mimeType of RECORDER_MIME_CANDIDATES) {
+      mimeTypes[mimeType] = MediaRecorder.isTypeSupported(mimeType)
+    }
+  }
+
+  return {
+    userAgent: navigator.userAgent,
+    platform: navigator.platform,
+    language: navigator.language,
+    online: navigator.onLine,
+    secureContext: window.isSecureContext,
+    hardwareConcurrency: navigator.hardwareConcurrency ?? null,
+    hasGetUserMedia: typeof navigator.mediaDevices?.getUserMedia === 'function',
+    hasMediaRecorder,
+    hasAudioWorklet: isAudioWorkletSupported(),
+    mimeTypes,
+    micPermission: await queryMicPermission(),
+    storage: await estimateStorage(),
+    track: describeTrack(stream),
+  }
+}
+
+/**
+ * 최근 이벤트, 브라우저 환경, 마지막 take를 ZIP 하나로 묶는다. 참가자가 지원 요청에 첨부한다.
+ * diagnostics.json과 마지막 take 오디오가 들어간다.
+ */
+export const createDiagnosticBundle = async ({
+  speakerId,
+  sessionId,
+  stream,
+  recorder,
+  lastTake,
+}: DiagnosticBundleInput): Promise<Blob> => {
+  const createdAt = new Date()
+  let lastTakeEntry: ZipEntryInput | null = null
+  let lastTakeReport: DiagnosticReport['lastTake'] = null
+  if (lastTake) {
+    const { blob, ...metadata } = lastTake
+    const extension = getOutputFileExtension(lastTake.outputSpec ?? DEFAULT_OUTPUT_SPEC)
+    const path = `${LAST_TAKE_BASENAME}.${extension}`
+    lastTakeEntry = { path, data: blob, modifiedAt: createdAt }
+    lastTakeReport = { ...metadata, path, sizeBytes: blob.size }
+  }
+
+  const report: DiagnosticReport = {
+    schemaVersion: DIAGNOSTIC_SCHEMA_VERSION,
+    createdAt: createdAt.toISOString(),
+    // 쿼리(?gate=, ?output=, ?capture= 등)에 따라 동작이 달라서 그대로 남긴다.
+    page: `${window.location.pathname}${window.location.search}`,
+    speakerId,
+    sessionId,
+    environment: await collectEnvironmentDiagnostics(stream),
+    recorder,
+    lastTake: lastTakeReport,
+    events: getRecentEvents(),
+  }
+  const entries: ZipEntryInput[] = [
+    { path: DIAGNOSTIC_JSON_PATH, data: JSON.stringify(report, null, 2), modifiedAt: createdAt },
+  ]
+  if (lastTakeEntry) {
+    entries.push(lastTakeEntry)
+  }
+
+  return createZip(entries)
+}
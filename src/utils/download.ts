@@ -0,0 +1,30 @@
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  document.body.appendChild(anchor)
+  anchor.click()
+  anchor.remove()
+  // 일부 브라우저는 click 직후 revoke하면 다운로드가 취소되므로 조금 늦춘다.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * 모바일처럼 파일 공유를 지원하면 공유 시트(메일, 메신저)로 보내고, 아니면 내려받는다.
+ * 참가자가 공유 시트를 닫으면 그냥 끝낸다.
+ */
+export const shareOrDownloadBlob = async (blob: Blob, fileName: string) => {
+  const file = new File([blob], fileName, { type: blob.type })
+  if (typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: fileName })
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        throw error
+      }
+    }
+    return
+  }
+  downloadBlob(blob, fileName)
+}
@@ -0,0 +1,65 @@
+export const LogLevel = {
+  Debug: 'debug',
+  Info: 'info',
+  Warn: 'warn',
+  Error: 'error',
+} as const
+
+export type LogLevel = (typeof LogLevel)[keyof typeof LogLevel]
+
+// 진단 묶음에 JSON으로 그대로 실리는 값만 받는다. 에러 객체는 name/message를 꺼내서 넘긴다.
+export type LogValue = string | number | boolean | null | undefined
+
+export type LogData = Record<string, LogValue>
+
+export type LogEvent = {
+  // 버퍼가 돌면서 앞쪽이 지워져도 빠진 구간을 알 수 있게 계속 늘어나는 번호.
+  seq: number
+  at: number
+  level: LogLevel
+  source: string
+  event: string
+  data: LogData | null
+}
+
+export type Logger = Record<LogLevel, (event: string, data?: LogData) => void>
+
+// 한 세션에서 문제가 난 앞뒤를 보기에 충분한 정도. 오래된 것부터 덮어쓴다.
+export const EVENT_LOG_CAPACITY = 500
+
+const buffer: LogEvent[] = []
+let nextSeq = 0
+
+const CONSOLE_METHODS: Record<LogLevel, 'debug' | 'log' | 'warn' | 'error'> = {
+  [LogLevel.Debug]: 'debug',
+  [LogLevel.Info]: 'log',
+  [LogLevel.Warn]: 'warn',
+  [LogLevel.Error]: 'error',
+}
+
+const record = (source: string, level: LogLevel, event: string, data?: LogData) => {
+  const entry: LogEvent = { seq: nextSeq, at: Date.now(), level, source, event, data: data ?? null }
+  buffer[nextSeq % EVENT_LOG_CAPACITY] = entry
+  nextSeq += 1
+  // 개발 중에는 예전처럼 콘솔에서도 본다.
+  console[CONSOLE_METHODS[level]](`[${source}]`, event, ...(data ? [data] : []))
+}
+
+/**
+ * 모듈마다 하나씩 만드는 로거. 이벤트는 콘솔과 함께 메모리 링 버퍼에 남아 진단 묶음으로 보낼 수 있다.
+ */
+export const createLogger = (source: string): Logger => ({
+  debug: (event, data) => record(source, LogLevel.Debug, event, data),
+  info: (event, data) => record(source, LogLevel.Info, event, data),
+  warn: (event, data) => record(source, LogLevel.Warn, event, data),
+  error: (event, data) => record(source, LogLevel.Error, event, data),
+})
+
+// 오래된 것부터. 버퍼에 남은 것만 돌려준다.
+export const getRecentEvents = (): LogEvent[] =>
+  nextSeq <= EVENT_LOG_CAPACITY
+    ? buffer.slice(0, nextSeq)
+    : [
+        ...buffer.slice(nextSeq % EVENT_LOG_CAPACITY),
+        ...buffer.slice(0, nextSeq % EVENT_LOG_CAPACITY),
+      ]
@@ -0,0 +1,87 @@
+export const nextPowerOfTwo = (value: number): number => {
+  let size = 1
+  while (size < value) {
+    size *= 2
+  }
+  return size
+}
+
+export const createHannWindow = (length: number): Float32Array => {
+  const window = new Float32Array(length)
+  if (length === 1) {
+    window[0] = 1
+    return window
+  }
+  for (let index = 0; index < length; index += 1) {
+    window[index] = 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (length - 1))
+  }
+  return window
+}
+
+/**
+ * 반복형 radix-2 Cooley-Tukey FFT. re/im 길이는 같은 2의 거듭제곱이어야 하고 제자리에서 바뀐다.
+ */
+export const fftInPlace = (re: Float64Array, im: Float64Array): void => {
+  const size = re.length
+  if (size !== im.length || (size & (size - 1)) !== 0) {
+    throw new DOMException(`FFT size must be a power of two: ${size}`, 'IndexSizeError')
+  }
+
+  for (let index = 1, reversed = 0; index < size; index += 1) {
+    let bit = size >> 1
+    for (; reversed & bit; bit >>= 1) {
+      reversed ^= bit
+    }
+    reversed ^= bit
+    if (index < reversed) {
+      ;[re[index], re[reversed]] = [re[reversed], re[index]]
+      ;[im[index], im[reversed]] = [im[reversed], im[index]]
+    }
+  }
+
+  for (let length = 2; length <= size; length *= 2) {
+    const angle = (-2 * Math.PI) / length
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    for (let start = 0; start < size; start += length) {
+      let twiddleRe = 1
+      let twiddleIm = 0
+      for (let offset = 0; offset < length / 2; offset += 1) {
+        const even = start + offset
+        const odd = even + length / 2
+        const oddRe = re[odd] * twiddleRe - im[odd] * twiddleIm
+        const oddIm = re[odd] * twiddleIm + im[odd] * twiddleRe
+        re[odd] = re[even] - oddRe
+        im[odd] = im[even] - oddIm
+        re[even] += oddRe
+        im[even] += oddIm
+        const nextRe = twiddleRe * stepRe - twiddleIm * stepIm
+        twiddleIm = twiddleRe * stepIm + twiddleIm * stepRe
+        twiddleRe = nextRe
+      }
+    }
+  }
+}
+
+/**
+ * 창 함수를 곱하고 0으로 채운 뒤 한쪽(0 ~ fftSize/2) 파워 스펙트럼을 돌려준다.
+ */
+export const computePowerSpectrum = (
+  frame: Float32Array,
+  fftSize: number,
+  window?: Float32Array,
+): Float64Array => {
+  const re = new Float64Array(fftSize)
+  const im = new Float64Array(fftSize)
+  const length = Math.min(frame.length, fftSize)
+  for (let index = 0; index < length; index += 1) {
+    re[index] = frame[index] * (window ? window[index] : 1)
+  }
+  fftInPlace(re, im)
+
+  const power = new Float64Array(fftSize / 2 + 1)
+  for (let bin = 0; bin < power.length; bin += 1) {
+    power[bin] = re[bin] * re[bin] + im[bin] * im[bin]
+  }
+  return power
+}
@@ -0,0 +1,143 @@
+import { computePowerSpectrum, createHannWindow } from './fft'
+
+const FINGERPRINT_VERSION = 1
+const FRAME_LENGTH = 512
+const HOP_MS = 20
+const BAND_COUNT = 17
+const BAND_LOW_HZ = 300
+const BAND_HIGH_HZ = 7000
+// 조용한 프레임의 비트는 잡음이라 비교에서 뺀다. 무음 take끼리 "같다"고 나오지 않게 하려는 것.
+const MIN_FRAME_RMS = 0.005
+// 녹음 시작 타이밍 차이를 감안해 앞뒤로 이만큼 밀어 보며 가장 잘 맞는 위치를 찾는다.
+const MAX_SHIFT_FRAMES = 10
+const MIN_OVERLAP_FRAMES = 10
+const INVALID_FRAME = -1
+
+/**
+ * Haitsma-Kalker 방식 오디오 지문. 프레임마다 인접 대역 에너지 차이의 시간 변화 부호를 16비트로 담는다.
+ * 같은 WAV를 또 낸 경우 비트가 거의 같다. 다시 튼 녹음이나 같은 단어를 새로 말한 take는 그 사이에 걸친다.
+ */
+export type AcousticFingerprint = {
+  version: number
+  frameMs: number
+  // 프레임마다 16비트 정수. 조용해서 믿을 수 없는 프레임은 -1.
+  bits: number[]
+}
+
+export type FingerprintCandidate = {
+  takeId: string
+  fingerprint: AcousticFingerprint
+}
+
+export type DuplicateMatch = {
+  takeId: string
+  similarity: number
+}
+
+const buildBandEdges = (sampleRate: number): number[] => {
+  const binHz = sampleRate / FRAME_LENGTH
+  const highHz = Math.min(BAND_HIGH_HZ, sampleRate / 2 - binHz)
+  const ratio = (highHz / BAND_LOW_HZ) ** (1 / BAND_COUNT)
+  return Array.from({ length: BAND_COUNT + 1 }, (_, index) =>
+    Math.round((BAND_LOW_HZ * ratio ** index) / binHz),
+  )
+}
+
+export const computeFingerprint = (pcm: Float32Array, sampleRate: number): AcousticFingerprint => {
+  const hop = Math.max(1, Math.round((HOP_MS * sampleRate) / 1000))
+  const window = createHannWindow(FRAME_LENGTH)
+  const edges = buildBandEdges(sampleRate)
+  const bits: number[] = []
+  let previousBands: Float64Array | null = null
+  let previousLoud = false
+
+  for (let start = 0; start + FRAME_LENGTH <= pcm.length; start += hop) {
+    const frame = pcm.subarray(start, start + FRAME_LENGTH)
+    let squares = 0
+    for (let index = 0; index < frame.length; index += 1) {
+      squares += frame[index] * frame[index]
+    }
+    const isLoud = Math.sqrt(squares / frame.length) >= MIN_FRAME_RMS
+
+    const power = computePowerSpectrum(frame, FRAME_LENGTH, window)
+    const bands = new Float64Array(BAND_COUNT)
+    for (let band = 0; band < BAND_COUNT; band += 1) {
+      for (let bin = edges[band]; bin < Math.max(edges[band] + 1, edges[band + 1]); bin += 1) {
+        bands[band] += power[bin]
+      }
+    }
+
+    if (previousBands) {
+      let value = 0
+      for (let band = 0; band < BAND_COUNT - 1; band += 1) {
+        const current = bands[band] - bands[band + 1]
+        const previous = previousBands[band] - previousBands[band + 1]
+        if (current - previous > 0) {
+          value |= 1 << band
+        }
+      }
+      bits.push(isLoud && previousLoud ? value : INVALID_FRAME)
+    }
+    previousBands = bands
+    previousLoud = isLoud
+  }
+
+  return { version: FINGERPRINT_VERSION, frameMs: HOP_MS, bits }
+}
+
+const popcount16 = (value: number) => {
+  let count = 0
+  for (let bit = value; bit !== 0; bit &= bit - 1) {
+    count += 1
+  }
+  return count
+}
+
+/**
+ * 0~1 유사도(1 - 비트 오류율). 겹치는 유효 프레임이 너무 적거나 버전이 다르면 null.
+ */
+export const compareFingerprints = (
+  a: AcousticFingerprint,
+  b: AcousticFingerprint,
+): number | null => {
+  if (a.version !== b.version || a.frameMs !== b.frameMs) {
+    return null
+  }
+  const bitsPerFrame = BAND_COUNT - 1
+  let best: number | null = null
+
+  for (let shift = -MAX_SHIFT_FRAMES; shift <= MAX_SHIFT_FRAMES; shift += 1) {
+    let frames = 0
+    let errors = 0
+    for (let index = 0; index < a.bits.length; index += 1) {
+      const other = index + shift
+      if (other < 0 || other >= b.bits.length) {
+        continue
+      }
+      if (a.bits[index] === INVALID_FRAME || b.bits[other] === INVALID_FRAME) {
+        continue
+      }
+      frames += 1
+      errors += popcount16(a.bits[index] ^ b.bits[other])
+    }
+    if (frames >= MIN_OVERLAP_FRAMES) {
+      const similarity = 1 - errors / (frames * bitsPerFrame)
+      best = best === null ? similarity : Math.max(best, similarity)
+    }
+  }
+  return best
+}
+
+export const findMostSimilarTake = (
+  fingerprint: AcousticFingerprint,
+  candidates: FingerprintCandidate[],
+): DuplicateMatch | null => {
+  let match: DuplicateMatch | null = null
+  for (const candidate of candidates) {
+    const similarity = compareFingerprints(fingerprint, candidate.fingerprint)
+    if (similarity !== null && (!match || similarity > match.similarity)) {
+      match = { takeId: candidate.takeId, similarity }
+    }
+  }
+  return match
+}
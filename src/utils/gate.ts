@@ -1,20 +1,20 @@
+import { alignSpeechWindow } from './alignment'
 import {
-  BORDERLINE_QUIET_RMS_THRESHOLD,
-  CLIP_LEVEL,
-  CLIP_RATIO_THRESHOLD,
-  EARLY_END_MS,
-  FLATLINE_ABS_MAX_THRESHOLD,
-  FLATLINE_RMS_THRESHOLD,
-  FRAME_SIZE,
-  GATE_TARGET_SAMPLE_COUNT,
-  GATE_TARGET_SAMPLE_RATE,
-  LATE_START_MS,
-  MIN_SPEECH_SPAN_MS,
-  NO_SPEECH_RATIO_THRESHOLD,
-  PASS_SPEECH_RATIO_THRESHOLD,
-  SPEECH_FRAME_RMS_THRESHOLD,
-  TOO_QUIET_RMS_THRESHOLD,
+  DEFAULT_GATE_CONFIG,
+  FRAME_MS,
+  GATE_REFERENCE_WINDOW_MS,
+  type GateConfig,
 } from './gateConfig'
+import type { DuplicateMatch } from './fingerprint'
+import {
+  findDropouts,
+  measureDcOffset,
+  measureHighBandDb,
+  measureSuppressedFrameRatio,
+} from './integrity'
+import { MissionKind } from './mission'
+import { DEFAULT_OUTPUT_SPEC } from './outputSpec'
+import { detectSpeechFrames, HIGH_BAND_LOW_HZ } from './vad'
 
 export type GateDecision = 'PASS' | 'AMBIG' | 'REJECT'
 export type GateReason =
@@ -24,12 +24,53 @@ export type GateReason =
   | 'BorderlineQuiet'
   | 'ClippingSuspected'
   | 'SpeechOffCenter'
+  | 'NoisyEnvironment'
+  | 'DcOffset'
+  | 'BandLimited'
+  | 'Dropout'
+  | 'NoiseSuppressionArtifacts'
+  | 'DuplicateSuspected'
+  | 'SpeechInBackground'
   | 'Ok'
 
+export const NoiseFloorSource = {
+  Calibration: 'calibration',
+  Take: 'take',
+} as const
+
+export type NoiseFloorSource = (typeof NoiseFloorSource)[keyof typeof NoiseFloorSource]
+
+// 첫 take 전에 라이브 스트림에서 잰 주변 소음.
+export type NoiseCalibration = {
+  noiseFloorRms: number
+  measuredAt: number
+  durationMs: number
+}
+
+// 시각화용 프레임별 발화 마스크. frames[i]가 1이면 i번째 프레임(frameMs 길이)이 발화.
+export type SpeechMask = {
+  frameMs: number
+  frames: number[]
+}
+
+// PCM 밖에서 온 판정 재료. 없으면 take만 보고 키워드 미션 기준으로 판정한다.
+export type GateContext = {
+  calibration?: NoiseCalibration | null
+  // 이 화자의 이전 take 중 지문이 가장 비슷한 것.
+  duplicate?: DuplicateMatch | null
+  // background면 판정이 뒤집힌다: 발화가 없어야 통과하고, 죽은 마이크만 따로 거른다.
+  missionKind?: MissionKind
+  // 출력 클립 길이. 입력이 이보다 길거나 짧으면 발화를 가운데 두고 이 길이로 맞춘 뒤 판정한다.
+  clipDurationMs?: number
+}
+
 export type GateResult = {
+  // 어떤 GateConfig 프로필로 판정했는지. 나중에 기준이 바뀌어도 결과를 해석할 수 있게 남긴다.
+  profileId: string
   decision: GateDecision
   reason: GateReason
   userMessage: string
+  speechMask: SpeechMask
   debugMetrics: {
     rms: number
     absMax: number
@@ -37,34 +78,182 @@ export type GateResult = {
     speechRatio: number
     firstSpeechMs: number | null
     lastSpeechMs: number | null
+    noiseFloorRms: number
+    noiseFloorSource: NoiseFloorSource
+    speechThresholdRms: number
+    snrDb: number | null
+    // 발화 프레임들의 스펙트럼 단서 평균. 발화가 없으면 null.
+    speechFlatness: number | null
+    speechVoiceBandRatio: number | null
+    speechZeroCrossingRate: number | null
+    dcOffset: number
+    // 소리가 있는 프레임에서 4kHz 이상 에너지 비율(dB). 소리가 없으면 null.
+    highBandDb: number | null
+    dropoutCount: number
+    longestDropoutMs: number
+    // 비발화 프레임 중 소음 제거가 지운 것처럼 완전히 조용한 비율. 셀 프레임이 적으면 null.
+    suppressedFrameRatio: number | null
+    duplicateSimilarity: number | null
+    duplicateOfTakeId: string | null
+  }
+}
+
+// 보정값이 없을 때 take 안에서 가장 조용한 프레임들(하위 10%)을 소음 바닥으로 본다.
+const TAKE_NOISE_PERCENTILE = 0.1
+const MIN_NOISE_FLOOR_RMS = 1e-5
+// 이보다 작은 DC는 무시한다. 창 정렬로 채운 0 프레임이 0으로 남아야 구분할 수 있다.
+const DC_REMOVAL_MIN = 0.001
+
+const dbToRatio = (db: number) => 10 ** (db / 20)
+
+// 안내 문구용. 2000 -> "2", 1500 -> "1.5"
+const formatClipSeconds = (ms: number) => String(Number((ms / 1000).toFixed(1)))
+
+/**
+ * 발화 프레임 RMS 기준. 보정값이 있으면 소음 바닥 + speechOverNoiseDb를 쓰고,
+ * 없으면 프로필의 고정 기준을 그대로 쓴다.
+ */
+export const resolveSpeechFrameThreshold = (
+  config: GateConfig,
+  calibration?: NoiseCalibration | null,
+): number =>
+  calibration
+    ? Math.max(
+        config.minSpeechFrameRms,
+        calibration.noiseFloorRms * dbToRatio(config.speechOverNoiseDb),
+      )
+    : config.speechFrameRmsThreshold
+
+const percentile = (values: number[], ratio: number) => {
+  if (values.length === 0) {
+    return 0
   }
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))]
 }
 
-const normalizePcmLength = (pcm: Float32Array): Float32Array => {
-  if (pcm.length === GATE_TARGET_SAMPLE_COUNT) {
+// 길이가 다른 입력은 앞에서 자르지 않고 발화 구간을 창 가운데로 맞춘다.
+const normalizePcmLength = (
+  pcm: Float32Array,
+  sampleRate: number,
+  targetSampleCount: number,
+  config: GateConfig,
+  speechThreshold: number,
+): Float32Array => {
+  if (pcm.length === targetSampleCount) {
     return pcm
   }
 
-  const normalized = new Float32Array(GATE_TARGET_SAMPLE_COUNT)
-  normalized.set(pcm.subarray(0, GATE_TARGET_SAMPLE_COUNT))
-  return normalized
+  return alignSpeechWindow(pcm, sampleRate, targetSampleCount, {
+    paddingMs: config.alignPaddingMs,
+    frameRmsThreshold: speechThreshold,
+    vad: config,
+  }).pcm
 }
 
-const buildResult = (
-  decision: GateDecision,
-  reason: GateReason,
-  userMessage: string,
+/**
+ * 배경 소리(room tone) take 판정. 조용한 방도 그대로 데이터가 되므로 음량/SNR/위치 기준은 보지 않고,
+ * 죽은 마이크와 말소리 섞임만 거른다.
+ */
+const judgeBackground = (
+  config: GateConfig,
+  clipDurationMs: number,
   debugMetrics: GateResult['debugMetrics'],
-): GateResult => ({
-  decision,
-  reason,
-  userMessage,
-  debugMetrics,
-})
+  buildResult: (
+    decision: GateDecision,
+    reason: GateReason,
+    userMessage: string,
+    debugMetrics: GateResult['debugMetrics'],
+  ) => GateResult,
+): GateResult => {
+  const { rms, absMax, clipRatio, speechRatio, dcOffset, suppressedFrameRatio } = debugMetrics
+
+  if (absMax < config.flatlineAbsMaxThreshold && rms < config.flatlineRmsThreshold) {
+    return buildResult('REJECT', 'Flatline', '마이크 신호가 거의 없어요. 마이크 연결을 확인해 주세요.', debugMetrics)
+  }
+
+  if (speechRatio >= config.noSpeechRatioThreshold) {
+    return buildResult(
+      'REJECT',
+      'SpeechInBackground',
+      `말소리가 들어갔어요. 이번엔 ${formatClipSeconds(clipDurationMs)}초 동안 아무 말도 하지 말아 주세요!`,
+      debugMetrics,
+    )
+  }
+
+  if (Math.abs(dcOffset) > config.maxDcOffset) {
+    return buildResult('AMBIG', 'DcOffset', '마이크 신호가 한쪽으로 쏠려 있어요. 다른 마이크로 해볼까요?', debugMetrics)
+  }
+
+  if (suppressedFrameRatio !== null && suppressedFrameRatio > config.maxSuppressedFrameRatio) {
+    return buildResult(
+      'AMBIG',
+      'NoiseSuppressionArtifacts',
+      '소음 제거 기능이 주변 소리를 지워 버렸어요. 소음 제거를 끄고 다시 해볼까요?',
+      debugMetrics,
+    )
+  }
+
+  if (clipRatio > config.clipRatioThreshold) {
+    return buildResult('AMBIG', 'ClippingSuspected', '큰 소리가 들어와서 깨졌어요. 다시 한 번!', debugMetrics)
+  }
+
+  return buildResult('PASS', 'Ok', '좋아! 주변 소리 잘 담았어요 🎉', debugMetrics)
+}
 
-export const analyzePcmForSpeechGate = (pcm: Float32Array, sampleRate: number): GateResult => {
-  const normalizedPcm = normalizePcmLength(pcm)
-  const actualSampleRate = sampleRate > 0 ? sampleRate : GATE_TARGET_SAMPLE_RATE
+/**
+ * 발화 타이밍 기준(첫 발화는 lateStartMs 전에, 마지막 발화는 earlyEndMs 뒤에).
+ * 기준 창 길이에 대한 비율로 보므로 1초 클립이면 절반 위치가 된다.
+ * minSpeechSpanMs는 창 위치가 아니라 키워드를 말하는 데 걸리는 시간이라 늘리거나 줄이지 않는다.
+ * 다만 짧은 클립에서 창 절반보다 길게 요구하면 앞뒤 여유 없이 꽉 채워야만 통과하므로 거기서 자른다.
+ * alignPaddingMs, vadMinRunMs, dropoutMinMs 같은 나머지 ms 값도 발화/신호 단위라 창 길이와 상관없다.
+ */
+export const resolveTimingLimits = (
+  config: GateConfig,
+  clipDurationMs: number = GATE_REFERENCE_WINDOW_MS,
+): { lateStartMs: number; earlyEndMs: number; minSpeechSpanMs: number } => {
+  const timingScale = clipDurationMs / GATE_REFERENCE_WINDOW_MS
+  return {
+    lateStartMs: config.lateStartMs * timingScale,
+    earlyEndMs: config.earlyEndMs * timingScale,
+    minSpeechSpanMs: Math.min(config.minSpeechSpanMs, clipDurationMs / 2),
+  }
+}
+
+export const analyzePcmForSpeechGate = (
+  pcm: Float32Array,
+  sampleRate: number,
+  config: GateConfig = DEFAULT_GATE_CONFIG,
+  context: GateContext = {},
+): GateResult => {
+  const calibration = context.calibration ?? null
+  const duplicate = context.duplicate ?? null
+  const actualSampleRate = sampleRate > 0 ? sampleRate : DEFAULT_OUTPUT_SPEC.sampleRate
+  const clipDurationMs = context.clipDurationMs ?? GATE_REFERENCE_WINDOW_MS
+  const speechThresholdRms = resolveSpeechFrameThreshold(config, calibration)
+  const normalizedPcm = normalizePcmLength(
+    pcm,
+    actualSampleRate,
+    Math.round((clipDurationMs * actualSampleRate) / 1000),
+    config,
+    speechThresholdRms,
+  )
+  const frameSize = Math.max(1, Math.round((FRAME_MS * actualSampleRate) / 1000))
+  const frameMs = (frameSize / actualSampleRate) * 1000
+  const { lateStartMs, earlyEndMs, minSpeechSpanMs } = resolveTimingLimits(config, clipDurationMs)
+  const buildResult = (
+    decision: GateDecision,
+    reason: GateReason,
+    userMessage: string,
+    debugMetrics: GateResult['debugMetrics'],
+  ): GateResult => ({
+    profileId: config.profileId,
+    decision,
+    reason,
+    userMessage,
+    speechMask: { frameMs, frames: mask },
+    debugMetrics,
+  })
 
   let sumSquares = 0
   let absMax = 0
@@ -77,7 +266,7 @@ export const analyzePcmForSpeechGate = (pcm: Float32Array, sampleRate: number):
     if (absSample > absMax) {
       absMax = absSample
     }
-    if (absSample > CLIP_LEVEL) {
+    if (absSample > config.clipLevel) {
       clippedCount += 1
     }
   }
@@ -85,31 +274,60 @@ export const analyzePcmForSpeechGate = (pcm: Float32Array, sampleRate: number):
   const rms = Math.sqrt(sumSquares / normalizedPcm.length)
   const clipRatio = clippedCount / normalizedPcm.length
 
-  const frameCount = Math.floor(normalizedPcm.length / FRAME_SIZE)
-  let speechFrameCount = 0
-  let firstSpeechFrame = -1
-  let lastSpeechFrame = -1
-
-  for (let frame = 0; frame < frameCount; frame += 1) {
-    const start = frame * FRAME_SIZE
-    const end = start + FRAME_SIZE
-    let frameSquares = 0
-    for (let i = start; i < end; i += 1) {
-      const sample = normalizedPcm[i]
-      frameSquares += sample * sample
-    }
-    const frameRms = Math.sqrt(frameSquares / FRAME_SIZE)
-    if (frameRms >= SPEECH_FRAME_RMS_THRESHOLD) {
-      speechFrameCount += 1
-      if (firstSpeechFrame === -1) {
-        firstSpeechFrame = frame
-      }
-      lastSpeechFrame = frame
-    }
-  }
+  // DC가 크게 실려 있으면 모든 프레임 RMS가 부풀어서 VAD/SNR이 틀어진다. 프레임 분석은 DC를 빼고 한다.
+  const dcOffset = measureDcOffset(normalizedPcm)
+  const centeredPcm =
+    Math.abs(dcOffset) > DC_REMOVAL_MIN ? normalizedPcm.map((sample) => sample - dcOffset) : normalizedPcm
+  const { frames, mask } = detectSpeechFrames(centeredPcm, actualSampleRate, {
+    frameSize,
+    energyThreshold: speechThresholdRms,
+    maxSpectralFlatness: config.vadMaxSpectralFlatness,
+    minVoiceBandRatio: config.vadMinVoiceBandRatio,
+    maxZeroCrossingRate: config.vadMaxZeroCrossingRate,
+    minRunFrames: Math.max(1, Math.round(config.vadMinRunMs / frameMs)),
+    hangoverFrames: Math.round(config.vadHangoverMs / frameMs),
+  })
+  const frameCount = frames.length
+  const frameRmsValues = frames.map((frame) => frame.rms)
+  const speechFrames = frames.filter((_, index) => mask[index] === 1)
+  const speechFrameCount = speechFrames.length
+  const speechSquares = speechFrames.reduce((sum, frame) => sum + frame.rms * frame.rms, 0)
+  const firstSpeechFrame = mask.indexOf(1)
+  const lastSpeechFrame = mask.lastIndexOf(1)
+  const meanOfSpeech = (pick: (frame: (typeof frames)[number]) => number) =>
+    speechFrameCount > 0
+      ? speechFrames.reduce((sum, frame) => sum + pick(frame), 0) / speechFrameCount
+      : null
+
+  const noiseFloorSource = calibration ? NoiseFloorSource.Calibration : NoiseFloorSource.Take
+  const noiseFloorRms = Math.max(
+    MIN_NOISE_FLOOR_RMS,
+    calibration ? calibration.noiseFloorRms : percentile(frameRmsValues, TAKE_NOISE_PERCENTILE),
+  )
+  const speechRms =
+    speechFrameCount > 0 ? Math.sqrt(speechSquares / speechFrameCount) : null
+  const snrDb = speechRms === null ? null : 20 * Math.log10(speechRms / noiseFloorRms)
+
+  // 조용한 마이크에서 보정했다면 음량 기준도 발화 기준이 내려간 만큼만 같이 내린다(더 엄해지지는 않음).
+  const quietScale = Math.min(1, speechThresholdRms / config.speechFrameRmsThreshold)
+  const tooQuietRmsThreshold = config.tooQuietRmsThreshold * quietScale
+  const borderlineQuietRmsThreshold = config.borderlineQuietRmsThreshold * quietScale
 
   const speechRatio = frameCount > 0 ? speechFrameCount / frameCount : 0
-  const frameMs = (FRAME_SIZE / actualSampleRate) * 1000
+  // 8kHz 출력이면 4kHz 위가 원래 없으니 대역 제한 검사를 하지 않는다.
+  const highBandDb =
+    actualSampleRate / 2 > HIGH_BAND_LOW_HZ ? measureHighBandDb(frames, speechThresholdRms) : null
+  const dropouts =
+    firstSpeechFrame === -1
+      ? { count: 0, longestMs: 0 }
+      : findDropouts(
+          normalizedPcm,
+          actualSampleRate,
+          firstSpeechFrame * frameSize,
+          (lastSpeechFrame + 1) * frameSize,
+          config.dropoutMinMs,
+        )
+  const suppressedFrameRatio = measureSuppressedFrameRatio(frames, mask)
   const firstSpeechMs = firstSpeechFrame === -1 ? null : Math.round(firstSpeechFrame * frameMs)
   const lastSpeechMs = lastSpeechFrame === -1 ? null : Math.round((lastSpeechFrame + 1) * frameMs)
   const speechSpanMs =
@@ -122,37 +340,111 @@ export const analyzePcmForSpeechGate = (pcm: Float32Array, sampleRate: number):
     speechRatio,
     firstSpeechMs,
     lastSpeechMs,
+    noiseFloorRms,
+    noiseFloorSource,
+    speechThresholdRms,
+    snrDb,
+    speechFlatness: meanOfSpeech((frame) => frame.spectralFlatness),
+    speechVoiceBandRatio: meanOfSpeech((frame) => frame.voiceBandRatio),
+    speechZeroCrossingRate: meanOfSpeech((frame) => frame.zeroCrossingRate),
+    dcOffset,
+    highBandDb,
+    dropoutCount: dropouts.count,
+    longestDropoutMs: dropouts.longestMs,
+    suppressedFrameRatio,
+    duplicateSimilarity: duplicate?.similarity ?? null,
+    duplicateOfTakeId: duplicate?.takeId ?? null,
   }
 
-  if (absMax < FLATLINE_ABS_MAX_THRESHOLD && rms < FLATLINE_RMS_THRESHOLD) {
+  if (absMax < config.flatlineAbsMaxThreshold && rms < config.flatlineRmsThreshold) {
     return buildResult('REJECT', 'Flatline', '마이크 신호가 거의 없어요. 다시 말해볼까?', debugMetrics)
   }
 
-  if (rms < TOO_QUIET_RMS_THRESHOLD) {
+  if (context.missionKind === MissionKind.Background) {
+    return judgeBackground(config, clipDurationMs, debugMetrics, buildResult)
+  }
+
+  if (duplicate && duplicate.similarity >= config.duplicateRejectThreshold) {
+    return buildResult(
+      'REJECT',
+      'DuplicateSuspected',
+      '예전 녹음과 똑같이 들려요. 직접 새로 말해 주세요!',
+      debugMetrics,
+    )
+  }
+
+  if (rms < tooQuietRmsThreshold) {
     return buildResult('REJECT', 'TooQuiet', '소리가 너무 작게 들어왔어요. 조금 더 크게!', debugMetrics)
   }
 
-  if (speechRatio < NO_SPEECH_RATIO_THRESHOLD) {
+  // 소음 바닥이 예전 고정 기준만큼 크면 말소리가 묻힌 것이라 "말이 없다"보다 "시끄럽다"가 맞다.
+  const isNoiseFloorHigh = noiseFloorRms >= config.speechFrameRmsThreshold
+  if (speechRatio < config.noSpeechRatioThreshold && isNoiseFloorHigh) {
+    return buildResult('REJECT', 'NoisyEnvironment', '주변이 너무 시끄러워요. 조용한 곳에서 다시 해볼까요?', debugMetrics)
+  }
+
+  if (speechRatio < config.noSpeechRatioThreshold) {
     return buildResult('REJECT', 'NoSpeech', '발화가 거의 감지되지 않았어요. 다시 또렷하게!', debugMetrics)
   }
 
-  if (rms < BORDERLINE_QUIET_RMS_THRESHOLD) {
+  if (dropouts.count > 0) {
+    return buildResult('REJECT', 'Dropout', '녹음 중간에 소리가 끊겼어요. 다시 한 번 녹음해요!', debugMetrics)
+  }
+
+  if (highBandDb !== null && highBandDb < -config.bandLimitDropDb) {
+    return buildResult('REJECT', 'BandLimited', '블루투스 헤드셋 소리처럼 들려요. 기기 마이크로 바꿔서 다시!', debugMetrics)
+  }
+
+  // take 안에서 잰 소음 바닥은 발화가 창을 거의 채우면 말소리 수준까지 올라가서 SNR이 낮게 나온다.
+  // 그래서 SNR로 거르는 건 녹음 전에 따로 잰 보정값이 있을 때만 하고, 나머지는 snrDb만 남긴다.
+  if (
+    noiseFloorSource === NoiseFloorSource.Calibration &&
+    snrDb !== null &&
+    snrDb < config.minSnrDb
+  ) {
+    return buildResult('REJECT', 'NoisyEnvironment', '주변이 너무 시끄러워요. 조용한 곳에서 다시 해볼까요?', debugMetrics)
+  }
+
+  if (Math.abs(dcOffset) > config.maxDcOffset) {
+    return buildResult('AMBIG', 'DcOffset', '마이크 신호가 한쪽으로 쏠려 있어요. 다른 마이크로 해볼까요?', debugMetrics)
+  }
+
+  if (suppressedFrameRatio !== null && suppressedFrameRatio > config.maxSuppressedFrameRatio) {
+    return buildResult(
+      'AMBIG',
+      'NoiseSuppressionArtifacts',
+      '소음 제거 기능이 목소리를 깎아냈어요. 조용한 곳에서 다시 해볼까요?',
+      debugMetrics,
+    )
+  }
+
+  if (rms < borderlineQuietRmsThreshold) {
     return buildResult('AMBIG', 'BorderlineQuiet', '거의 좋아요! 한 번만 더 또렷하게 해볼까요?', debugMetrics)
   }
 
-  if (clipRatio > CLIP_RATIO_THRESHOLD) {
+  if (clipRatio > config.clipRatioThreshold) {
     return buildResult('AMBIG', 'ClippingSuspected', '소리가 살짝 깨졌을 수 있어요. 다시 한 번!', debugMetrics)
   }
 
   if (
-    (firstSpeechMs !== null && firstSpeechMs > LATE_START_MS) ||
-    (lastSpeechMs !== null && lastSpeechMs < EARLY_END_MS) ||
-    speechSpanMs < MIN_SPEECH_SPAN_MS
+    (firstSpeechMs !== null && firstSpeechMs > lateStartMs) ||
+    (lastSpeechMs !== null && lastSpeechMs < earlyEndMs) ||
+    speechSpanMs < minSpeechSpanMs
   ) {
     return buildResult('AMBIG', 'SpeechOffCenter', '타이밍이 조금 치우쳤어요. 중앙에 맞춰 다시!', debugMetrics)
   }
 
-  if (speechRatio >= PASS_SPEECH_RATIO_THRESHOLD && rms >= BORDERLINE_QUIET_RMS_THRESHOLD) {
+  // 같은 단어를 다시 말해도 이 정도는 나올 수 있어서 거르지 않고 검수에 넘긴다.
+  if (duplicate && duplicate.similarity >= config.duplicateSimilarityThreshold) {
+    return buildResult(
+      'AMBIG',
+      'DuplicateSuspected',
+      '예전 녹음과 많이 비슷하게 들려요. 한 번만 새로 말해 주세요!',
+      debugMetrics,
+    )
+  }
+
+  if (speechRatio >= config.passSpeechRatioThreshold && rms >= borderlineQuietRmsThreshold) {
     return buildResult('PASS', 'Ok', '좋아! 완벽해 🎉', debugMetrics)
   }
 
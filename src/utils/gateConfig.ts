@@ -1,10 +1,10 @@
-export const GATE_TARGET_SAMPLE_RATE = 16000
-export const GATE_TARGET_DURATION_MS = 2000
-export const GATE_TARGET_SAMPLE_COUNT =
-  (GATE_TARGET_SAMPLE_RATE * GATE_TARGET_DURATION_MS) / 1000
+import { DEFAULT_OUTPUT_SPEC } from './outputSpec'
+
+// 타이밍 기준(lateStartMs, earlyEndMs)은 이 길이의 창을 기준으로 적는다.
+// 클립 길이가 다르면 게이트가 같은 비율로 늘리거나 줄인다.
+export const GATE_REFERENCE_WINDOW_MS = DEFAULT_OUTPUT_SPEC.durationMs
 
 export const FRAME_MS = 20
-export const FRAME_SIZE = (GATE_TARGET_SAMPLE_RATE * FRAME_MS) / 1000
 
 export const FLATLINE_ABS_MAX_THRESHOLD = 0.001
 export const FLATLINE_RMS_THRESHOLD = 0.003
@@ -21,3 +21,260 @@ export const CLIP_RATIO_THRESHOLD = 0.002
 export const LATE_START_MS = 1400
 export const EARLY_END_MS = 600
 export const MIN_SPEECH_SPAN_MS = 350
+
+export const ALIGN_PADDING_MS = 200
+
+// 주변 소음 보정: 발화 프레임 기준을 소음 바닥 + speechOverNoiseDb로 잡는다.
+export const SPEECH_OVER_NOISE_DB = 10
+export const MIN_SPEECH_FRAME_RMS = 0.004
+export const MIN_SNR_DB = 12
+
+// 스펙트럼 VAD: 에너지 + 음성 대역 비율 + (평탄도 또는 영교차율)로 발화 프레임을 고른다.
+export const VAD_MAX_SPECTRAL_FLATNESS = 0.45
+export const VAD_MIN_VOICE_BAND_RATIO = 0.5
+export const VAD_MAX_ZERO_CROSSING_RATE = 0.25
+export const VAD_MIN_RUN_MS = 60
+export const VAD_HANGOVER_MS = 100
+
+// 신호 무결성 검사
+export const MAX_DC_OFFSET = 0.05
+// 4kHz 이상 에너지가 전체보다 이만큼(dB) 이상 작으면 대역 제한(블루투스 HFP 등)으로 본다.
+export const BAND_LIMIT_DROP_DB = 40
+export const DROPOUT_MIN_MS = 5
+export const MAX_SUPPRESSED_FRAME_RATIO = 0.6
+
+// 이전 take와 지문 유사도가 이 이상이면 중복 의심으로 AMBIG을 주고 검수에 넘긴다.
+// 합성 신호로 재 보면 조금 밀린 재생과 같은 화자가 새로 말한 같은 단어가 0.7~0.9에서 겹쳐서
+// 이 구간만으로는 둘을 가를 수 없다.
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.8
+// 이 이상이면 같은 파일을 그대로 다시 낸 수준이라 REJECT한다.
+export const DUPLICATE_REJECT_THRESHOLD = 0.95
+
+export const GateProfileId = {
+  Strict: 'strict',
+  Default: 'default',
+  Lenient: 'lenient',
+} as const
+
+export type GateProfileId = (typeof GateProfileId)[keyof typeof GateProfileId]
+
+/**
+ * 게이트가 런타임에 받는 기준값 묶음. 위 상수들은 default 프로필의 값이다.
+ * profileId는 판정 결과에 그대로 남아서 어떤 기준으로 걸렀는지 나중에 알 수 있다.
+ */
+export type GateConfig = {
+  profileId: string
+  flatlineAbsMaxThreshold: number
+  flatlineRmsThreshold: number
+  tooQuietRmsThreshold: number
+  borderlineQuietRmsThreshold: number
+  speechFrameRmsThreshold: number
+  noSpeechRatioThreshold: number
+  passSpeechRatioThreshold: number
+  clipLevel: number
+  clipRatioThreshold: number
+  lateStartMs: number
+  earlyEndMs: number
+  minSpeechSpanMs: number
+  alignPaddingMs: number
+  speechOverNoiseDb: number
+  // 소음 바닥이 아주 낮아도 발화 프레임 기준이 이보다 내려가지는 않는다.
+  minSpeechFrameRms: number
+  minSnrDb: number
+  vadMaxSpectralFlatness: number
+  vadMinVoiceBandRatio: number
+  vadMaxZeroCrossingRate: number
+  vadMinRunMs: number
+  vadHangoverMs: number
+  maxDcOffset: number
+  bandLimitDropDb: number
+  dropoutMinMs: number
+  maxSuppressedFrameRatio: number
+  duplicateSimilarityThreshold: number
+  duplicateRejectThreshold: number
+}
+
+export type GateThresholds = Omit<GateConfig, 'profileId'>
+
+// 캠페인 설정에서 받는 형태: 프로필 id 문자열, 또는 기반 프로필 + 덮어쓸 값.
+export type GateConfigSpec = string | ({ id?: string; profile?: string } & Partial<GateThresholds>)
+
+export const DEFAULT_GATE_CONFIG: GateConfig = {
+  profileId: GateProfileId.Default,
+  flatlineAbsMaxThreshold: FLATLINE_ABS_MAX_THRESHOLD,
+  flatlineRmsThreshold: FLATLINE_RMS_THRESHOLD,
+  tooQuietRmsThreshold: TOO_QUIET_RMS_THRESHOLD,
+  borderlineQuietRmsThreshold: BORDERLINE_QUIET_RMS_THRESHOLD,
+  speechFrameRmsThreshold: SPEECH_FRAME_RMS_THRESHOLD,
+  noSpeechRatioThreshold: NO_SPEECH_RATIO_THRESHOLD,
+  passSpeechRatioThreshold: PASS_SPEECH_RATIO_THRESHOLD,
+  clipLevel: CLIP_LEVEL,
+  clipRatioThreshold: CLIP_RATIO_THRESHOLD,
+  lateStartMs: LATE_START_MS,
+  earlyEndMs: EARLY_END_MS,
+  minSpeechSpanMs: MIN_SPEECH_SPAN_MS,
+  alignPaddingMs: ALIGN_PADDING_MS,
+  speechOverNoiseDb: SPEECH_OVER_NOISE_DB,
+  minSpeechFrameRms: MIN_SPEECH_FRAME_RMS,
+  minSnrDb: MIN_SNR_DB,
+  vadMaxSpectralFlatness: VAD_MAX_SPECTRAL_FLATNESS,
+  vadMinVoiceBandRatio: VAD_MIN_VOICE_BAND_RATIO,
+  vadMaxZeroCrossingRate: VAD_MAX_ZERO_CROSSING_RATE,
+  vadMinRunMs: VAD_MIN_RUN_MS,
+  vadHangoverMs: VAD_HANGOVER_MS,
+  maxDcOffset: MAX_DC_OFFSET,
+  bandLimitDropDb: BAND_LIMIT_DROP_DB,
+  dropoutMinMs: DROPOUT_MIN_MS,
+  maxSuppressedFrameRatio: MAX_SUPPRESSED_FRAME_RATIO,
+  duplicateSimilarityThreshold: DUPLICATE_SIMILARITY_THRESHOLD,
+  duplicateRejectThreshold: DUPLICATE_REJECT_THRESHOLD,
+}
+
+export const GATE_PROFILES: Record<GateProfileId, GateConfig> = {
+  // 스튜디오/조용한 방: 작은 소리와 치우친 타이밍을 더 엄하게 본다.
+  [GateProfileId.Strict]: {
+    ...DEFAULT_GATE_CONFIG,
+    profileId: GateProfileId.Strict,
+    tooQuietRmsThreshold: 0.012,
+    borderlineQuietRmsThreshold: 0.02,
+    speechFrameRmsThreshold: 0.02,
+    noSpeechRatioThreshold: 0.15,
+    passSpeechRatioThreshold: 0.3,
+    clipRatioThreshold: 0.0005,
+    lateStartMs: 1200,
+    earlyEndMs: 800,
+    minSpeechSpanMs: 450,
+    speechOverNoiseDb: 12,
+    minSnrDb: 15,
+    vadMaxSpectralFlatness: 0.4,
+    vadMinVoiceBandRatio: 0.6,
+    vadMaxZeroCrossingRate: 0.2,
+    vadMinRunMs: 80,
+    maxDcOffset: 0.02,
+    bandLimitDropDb: 35,
+    dropoutMinMs: 3,
+    maxSuppressedFrameRatio: 0.4,
+    duplicateSimilarityThreshold: 0.75,
+  },
+  [GateProfileId.Default]: DEFAULT_GATE_CONFIG,
+  // 교실/아이들: 작은 목소리와 짧은 발화도 최대한 살린다.
+  [GateProfileId.Lenient]: {
+    ...DEFAULT_GATE_CONFIG,
+    profileId: GateProfileId.Lenient,
+    tooQuietRmsThreshold: 0.005,
+    borderlineQuietRmsThreshold: 0.01,
+    speechFrameRmsThreshold: 0.01,
+    noSpeechRatioThreshold: 0.06,
+    passSpeechRatioThreshold: 0.15,
+    clipRatioThreshold: 0.005,
+    lateStartMs: 1600,
+    earlyEndMs: 400,
+    minSpeechSpanMs: 250,
+    speechOverNoiseDb: 8,
+    minSpeechFrameRms: 0.003,
+    minSnrDb: 8,
+    vadMaxSpectralFlatness: 0.5,
+    vadMinVoiceBandRatio: 0.4,
+    vadMaxZeroCrossingRate: 0.3,
+    vadMinRunMs: 40,
+    vadHangoverMs: 140,
+    maxDcOffset: 0.1,
+    bandLimitDropDb: 45,
+    dropoutMinMs: 10,
+    maxSuppressedFrameRatio: 0.8,
+    duplicateSimilarityThreshold: 0.88,
+  },
+}
+
+const THRESHOLD_KEYS = Object.keys(DEFAULT_GATE_CONFIG).filter(
+  (key) => key !== 'profileId',
+) as (keyof GateThresholds)[]
+
+const gateConfigError = (message: string) => new DOMException(message, 'GateConfigError')
+
+const isGateProfileId = (value: string): value is GateProfileId =>
+  Object.prototype.hasOwnProperty.call(GATE_PROFILES, value)
+
+/**
+ * 값의 범위와 서로 간의 순서를 검사한다. 틀리면 GateConfigError를 던진다.
+ */
+export const validateGateConfig = (config: GateConfig): GateConfig => {
+  if (!config.profileId.trim()) {
+    throw gateConfigError('profileId is required')
+  }
+  for (const key of THRESHOLD_KEYS) {
+    if (typeof config[key] !== 'number' || !Number.isFinite(config[key]) || config[key] < 0) {
+      throw gateConfigError(`${key} must be a non-negative number`)
+    }
+  }
+  for (const key of [
+    'noSpeechRatioThreshold',
+    'passSpeechRatioThreshold',
+    'clipRatioThreshold',
+    'vadMaxSpectralFlatness',
+    'vadMinVoiceBandRatio',
+    'vadMaxZeroCrossingRate',
+    'maxDcOffset',
+    'maxSuppressedFrameRatio',
+    'duplicateSimilarityThreshold',
+    'duplicateRejectThreshold',
+  ] as const) {
+    if (config[key] > 1) {
+      throw gateConfigError(`${key} must be a ratio between 0 and 1`)
+    }
+  }
+  if (config.clipLevel <= 0 || config.clipLevel > 1) {
+    throw gateConfigError('clipLevel must be in (0, 1]')
+  }
+  if (config.minSpeechFrameRms > config.speechFrameRmsThreshold) {
+    throw gateConfigError('minSpeechFrameRms must not exceed speechFrameRmsThreshold')
+  }
+  if (config.tooQuietRmsThreshold > config.borderlineQuietRmsThreshold) {
+    throw gateConfigError('tooQuietRmsThreshold must not exceed borderlineQuietRmsThreshold')
+  }
+  if (config.noSpeechRatioThreshold > config.passSpeechRatioThreshold) {
+    throw gateConfigError('noSpeechRatioThreshold must not exceed passSpeechRatioThreshold')
+  }
+  if (config.earlyEndMs >= config.lateStartMs || config.lateStartMs > GATE_REFERENCE_WINDOW_MS) {
+    throw gateConfigError('earlyEndMs < lateStartMs <= window duration is required')
+  }
+  if (config.duplicateSimilarityThreshold > config.duplicateRejectThreshold) {
+    throw gateConfigError('duplicateSimilarityThreshold must not exceed duplicateRejectThreshold')
+  }
+  if (config.minSpeechSpanMs >= GATE_REFERENCE_WINDOW_MS) {
+    throw gateConfigError('minSpeechSpanMs must be shorter than the window')
+  }
+  return config
+}
+
+export const resolveGateConfig = (spec: unknown): GateConfig => {
+  if (spec === undefined || spec === null || spec === '') {
+    return DEFAULT_GATE_CONFIG
+  }
+  if (typeof spec === 'string') {
+    if (!isGateProfileId(spec)) {
+      throw gateConfigError(`unknown gate profile: ${spec}`)
+    }
+    return GATE_PROFILES[spec]
+  }
+  if (typeof spec !== 'object' || Array.isArray(spec)) {
+    throw gateConfigError('gate config must be a profile id or an object')
+  }
+
+  const { id, profile, ...overrides } = spec as Record<string, unknown>
+  const base = resolveGateConfig(profile ?? GateProfileId.Default)
+  for (const key of Object.keys(overrides)) {
+    if (!THRESHOLD_KEYS.includes(key as keyof GateThresholds)) {
+      throw gateConfigError(`unknown gate config key: ${key}`)
+    }
+  }
+  const hasOverrides = Object.keys(overrides).length > 0
+  const profileId =
+    typeof id === 'string' && id.trim()
+      ? id.trim()
+      : hasOverrides
+        ? `${base.profileId}+custom`
+        : base.profileId
+
+  return validateGateConfig({ ...base, ...(overrides as Partial<GateThresholds>), profileId })
+}
@@ -0,0 +1,128 @@
+import type { FrameFeatures } from './vad'
+
+// 이 아래면 "디지털 0"으로 본다. 16-bit 1 LSB(약 3e-5)보다 조금 크게 잡아 리샘플링 잔여물까지 포함한다.
+const DROPOUT_LEVEL = 1e-4
+// 끊김 앞뒤 5ms가 이 정도는 되어야 "말하다 뚝 끊긴 것"으로 본다. 서서히 작아지는 건 끊김이 아니다.
+const DROPOUT_EDGE_RMS = 0.005
+const DROPOUT_EDGE_MS = 5
+// 실제 마이크는 말이 없어도 이 정도 잡음은 있다. 이보다 조용한 비발화 프레임은 소음 제거가 지운 것.
+const SUPPRESSED_FRAME_RMS = 3e-5
+const MIN_SUPPRESSION_FRAMES = 5
+const POWER_RATIO_FLOOR = 1e-12
+
+export type DropoutStats = {
+  count: number
+  longestMs: number
+}
+
+export const measureDcOffset = (pcm: Float32Array): number => {
+  if (pcm.length === 0) {
+    return 0
+  }
+  let sum = 0
+  for (let index = 0; index < pcm.length; index += 1) {
+    sum += pcm[index]
+  }
+  return sum / pcm.length
+}
+
+const edgeRms = (pcm: Float32Array, start: number, end: number) => {
+  const from = Math.max(0, start)
+  const to = Math.min(pcm.length, end)
+  if (to <= from) {
+    return 0
+  }
+  let squares = 0
+  for (let index = from; index < to; index += 1) {
+    squares += pcm[index] * pcm[index]
+  }
+  return Math.sqrt(squares / (to - from))
+}
+
+/**
+ * 발화 구간 [startSample, endSample) 안에서 앞뒤는 소리가 있는데 가운데만 0으로 비는 구간을 센다.
+ */
+export const findDropouts = (
+  pcm: Float32Array,
+  sampleRate: number,
+  startSample: number,
+  endSample: number,
+  minRunMs: number,
+): DropoutStats => {
+  const minRun = Math.max(1, Math.round((minRunMs * sampleRate) / 1000))
+  const edge = Math.max(1, Math.round((DROPOUT_EDGE_MS * sampleRate) / 1000))
+  const end = Math.min(pcm.length, endSample)
+  let count = 0
+  let longest = 0
+
+  for (let index = Math.max(0, startSample); index < end; ) {
+    if (Math.abs(pcm[index]) >= DROPOUT_LEVEL) {
+      index += 1
+      continue
+    }
+    let runEnd = index
+    while (runEnd < end && Math.abs(pcm[runEnd]) < DROPOUT_LEVEL) {
+      runEnd += 1
+    }
+    const runLength = runEnd - index
+    if (
+      runLength >= minRun &&
+      edgeRms(pcm, index - edge, index) >= DROPOUT_EDGE_RMS &&
+      edgeRms(pcm, runEnd, runEnd + edge) >= DROPOUT_EDGE_RMS
+    ) {
+      count += 1
+      longest = Math.max(longest, runLength)
+    }
+    index = runEnd
+  }
+
+  return { count, longestMs: Math.round((longest / sampleRate) * 1000) }
+}
+
+/**
+ * 소리가 있는 프레임(energyThreshold 이상)에서 4kHz 이상 에너지 비율의 최댓값(dB).
+ * 마찰음/파열음이 한 번이라도 있으면 높게 나오고, 8kHz 샘플링 헤드셋이면 어느 프레임도 높을 수 없다.
+ */
+export const measureHighBandDb = (
+  frames: FrameFeatures[],
+  energyThreshold: number,
+): number | null => {
+  const ratios = frames
+    .filter((frame) => frame.rms >= energyThreshold)
+    .map((frame) => frame.highBandRatio)
+  if (ratios.length === 0) {
+    return null
+  }
+  return 10 * Math.log10(Math.max(Math.max(...ratios), POWER_RATIO_FLOOR))
+}
+
+/**
+ * 비발화 프레임 중 실제 마이크로는 나올 수 없을 만큼 조용한 프레임의 비율.
+ * 창 정렬로 앞뒤에 채운 0 프레임은 빼고 센다.
+ */
+export const measureSuppressedFrameRatio = (
+  frames: FrameFeatures[],
+  mask: number[],
+): number | null => {
+  let first = 0
+  let last = frames.length - 1
+  while (first <= last && frames[first].rms === 0) {
+    first += 1
+  }
+  while (last >= first && frames[last].rms === 0) {
+    last -= 1
+  }
+
+  let silentCount = 0
+  let suppressedCount = 0
+  for (let index = first; index <= last; index += 1) {
+    if (mask[index] === 1) {
+      continue
+    }
+    silentCount += 1
+    if (frames[index].rms < SUPPRESSED_FRAME_RMS) {
+      suppressedCount += 1
+    }
+  }
+  return silentCount >= MIN_SUPPRESSION_FRAMES ? suppressedCount / silentCount : null
+}
@@ -0,0 +1,402 @@
+import { resolveCaptureProfile, type CaptureProfile } from './captureProfile'
+import { resolveGateConfig, type GateConfig } from './gateConfig'
+import { MISSION_KINDS, MissionKind, SILENCE_LABEL, UNKNOWN_LABEL } from './mission'
+import { resolveOutputSpec, type OutputSpec } from './outputSpec'
+
+export const KeywordOrderPolicy = {
+  Sequential: 'sequential',
+  Shuffle: 'shuffle',
+  RoundRobin: 'roundRobin',
+} as const
+
+export type KeywordOrderPolicy = (typeof KeywordOrderPolicy)[keyof typeof KeywordOrderPolicy]
+
+export type KeywordEntry = {
+  id: string
+  text: string
+  romanization: string | null
+  targetTakes: number
+  kind: MissionKind
+}
+
+// 필러 미션에서 읽어 달라고 보여주는 키워드가 아닌 문장.
+export type FillerPrompt = {
+  text: string
+  romanization: string | null
+}
+
+export type KeywordCatalog = {
+  order: KeywordOrderPolicy
+  keywords: KeywordEntry[]
+  // 캠페인별 게이트 기준. "gate": "lenient" 또는 { "profile": "lenient", ...덮어쓸 값 }
+  gateConfig: GateConfig | null
+  // 캠페인별 출력 형식. "output": "speechCommands" 또는 { "preset": "archive", ...덮어쓸 값 }
+  outputSpec: OutputSpec | null
+  // 캠페인별 음성 처리. "processing": "raw" 또는 { "profile": "raw", ...덮어쓸 값 }
+  captureProfile: CaptureProfile | null
+  // 필러 미션마다 무작위로 하나씩 뽑는 문장. 키워드와 같은 문장은 들어 있지 않다.
+  fillerPrompts: FillerPrompt[]
+}
+
+export const DEFAULT_TARGET_TAKES = 3
+const DEFAULT_BACKGROUND_ID = 'background'
+const DEFAULT_BACKGROUND_TEXT = '조용히 있기'
+const DEFAULT_FILLER_ID = 'filler'
+const DEFAULT_FILLER_TEXT = '아무 단어'
+// 카탈로그에 fillerPrompts가 없을 때(CSV 포함) 쓰는 문장. 키워드와 겹치는 것은 빼고 쓴다.
+const DEFAULT_FILLER_PROMPTS = [
+  '바나나',
+  '오늘 날씨',
+  '창문 열어',
+  '라면 먹자',
+  '고양이',
+  '내일 만나',
+  '빨간 사과',
+  '책 읽기',
+  '물 한 잔',
+  '자전거',
+  '안녕하세요',
+  '지금 몇 시야',
+]
+export const DEFAULT_KEYWORD_CATALOG_URL = `${import.meta.env.BASE_URL}keywords.json`
+
+const ORDER_POLICIES = Object.values(KeywordOrderPolicy) as string[]
+
+const catalogError = (message: string) => new DOMException(message, 'KeywordCatalogError')
+
+const toKeywordId = (text: string) =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '_')
+    .replace(/[^\p{L}\p{N}_-]/gu, '')
+
+const parseTargetTakes = (value: unknown, fallback: number): number => {
+  if (value === undefined || value === null || value === '') {
+    return fallback
+  }
+  const parsed = typeof value === 'number' ? value : Number(value)
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw catalogError(`targetTakes must be a positive integer: ${String(value)}`)
+  }
+  return parsed
+}
+
+const parseOrderPolicy = (value: unknown): KeywordOrderPolicy => {
+  if (value === undefined || value === null || value === '') {
+    return KeywordOrderPolicy.Sequential
+  }
+  if (typeof value !== 'string' || !ORDER_POLICIES.includes(value)) {
+    throw catalogError(`unknown order policy: ${String(value)}`)
+  }
+  return value as KeywordOrderPolicy
+}
+
+const parseMissionKind = (value: unknown): MissionKind => {
+  if (value === undefined || value === null || value === '') {
+    return MissionKind.Keyword
+  }
+  if (typeof value !== 'string' || !MISSION_KINDS.includes(value)) {
+    throw catalogError(`unknown mission kind: ${String(value)}`)
+  }
+  return value as MissionKind
+}
+
+const buildEntry = (raw: Record<string, unknown>, defaultTargetTakes: number): KeywordEntry => {
+  const kind = parseMissionKind(raw.kind)
+  const isBackground = kind === MissionKind.Background
+  const isFiller = kind === MissionKind.Filler
+  // 배경 소리 미션은 읽을 문장이 없고, 필러 미션은 fillerPrompts에서 뽑으니 text를 비워도 된다.
+  // 필러 미션의 text는 진행 칩에 보이는 이름일 뿐이다.
+  const text =
+    typeof raw.text === 'string' && raw.text.trim()
+      ? raw.text.trim()
+      : isBackground
+        ? DEFAULT_BACKGROUND_TEXT
+        : isFiller
+          ? DEFAULT_FILLER_TEXT
+          : ''
+  if (!text) {
+    throw catalogError('keyword text is required')
+  }
+  const fallbackId = raw.text
+    ? toKeywordId(text)
+    : isBackground
+      ? DEFAULT_BACKGROUND_ID
+      : DEFAULT_FILLER_ID
+  const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : fallbackId
+  // 키워드 id는 내보낼 때 폴더 이름(학습 라벨)이 된다. 비거나 예약 라벨이면 음성 클래스에 섞인다.
+  if (kind === MissionKind.Keyword && !id) {
+    throw catalogError(`keyword id is empty; give "${text}" an explicit id`)
+  }
+  if (kind === MissionKind.Keyword && (id === UNKNOWN_LABEL || id === SILENCE_LABEL)) {
+    throw catalogError(`keyword id must not be a reserved label: ${id}`)
+  }
+  const romanization =
+    typeof raw.romanization === 'string' && raw.romanization.trim() ? raw.romanization.trim() : null
+
+  return {
+    id,
+    text,
+    romanization,
+    targetTakes: parseTargetTakes(raw.targetTakes, defaultTargetTakes),
+    kind,
+  }
+}
+
+const assertUniqueIds = (keywords: KeywordEntry[]) => {
+  const seen = new Set<string>()
+  for (const keyword of keywords) {
+    if (seen.has(keyword.id)) {
+      throw catalogError(`duplicate keyword id: ${keyword.id}`)
+    }
+    seen.add(keyword.id)
+  }
+}
+
+// 띄어쓰기와 대소문자만 다른 문장은 같은 말로 본다.
+const toPromptKey = (text: string) => text.replace(/\s+/g, '').toLowerCase()
+
+const buildFillerPrompt = (item: unknown): FillerPrompt => {
+  const raw = (typeof item === 'string' ? { text: item } : (item ?? {})) as Record<string, unknown>
+  const text = typeof raw.text === 'string' ? raw.text.trim() : ''
+  if (!text) {
+    throw catalogError('filler prompt text is required')
+  }
+  const romanization =
+    typeof raw.romanization === 'string' && raw.romanization.trim() ? raw.romanization.trim() : null
+  return { text, romanization }
+}
+
+/**
+ * 필러 문장 풀을 만든다. 키워드 문장(id 포함)과 겹치면 unknown 라벨에 키워드가 섞이므로,
+ * 캠페인이 준 문장이면 에러를 내고 기본 문장이면 빼고 쓴다.
+ */
+const parseFillerPrompts = (value: unknown, keywords: KeywordEntry[]): FillerPrompt[] => {
+  const keywordEntries = keywords.filter((keyword) => keyword.kind === MissionKind.Keyword)
+  const keywordTexts = new Set(keywordEntries.map((keyword) => toPromptKey(keyword.text)))
+  const keywordIds = new Set(keywordEntries.map((keyword) => keyword.id))
+  const isKeyword = (prompt: FillerPrompt) =>
+    keywordTexts.has(toPromptKey(prompt.text)) || keywordIds.has(toKeywordId(prompt.text))
+
+  let prompts: FillerPrompt[]
+  if (value === undefined || value === null) {
+    prompts = DEFAULT_FILLER_PROMPTS.map(buildFillerPrompt).filter((prompt) => !isKeyword(prompt))
+  } else {
+    if (!Array.isArray(value)) {
+      throw catalogError('fillerPrompts must be an array')
+    }
+    prompts = value.map(buildFillerPrompt)
+    const keywordPrompt = prompts.find(isKeyword)
+    if (keywordPrompt) {
+      throw catalogError(`filler prompt is a keyword: ${keywordPrompt.text}`)
+    }
+  }
+
+  if (prompts.length === 0 && keywords.some((keyword) => keyword.kind === MissionKind.Filler)) {
+    throw catalogError('filler missions need at least one filler prompt')
+  }
+  return prompts
+}
+
+export const parseKeywordCatalogJson = (source: string): KeywordCatalog => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(source)
+  } catch {
+    throw catalogError('catalog is not valid JSON')
+  }
+
+  // 배열만 있는 파일도 허용한다: [{ "text": "..." }, ...]
+  const root = (Array.isArray(parsed) ? { keywords: parsed } : parsed) as Record<string, unknown>
+  if (!root || typeof root !== 'object' || !Array.isArray(root.keywords)) {
+    throw catalogError('catalog must contain a "keywords" array')
+  }
+
+  const defaultTargetTakes = parseTargetTakes(root.targetTakes, DEFAULT_TARGET_TAKES)
+  const keywords = (root.keywords as unknown[]).map((item) =>
+    buildEntry(
+      typeof item === 'string' ? { text: item } : ((item ?? {}) as Record<string, unknown>),
+      defaultTargetTakes,
+    ),
+  )
+
+  if (keywords.length === 0) {
+    throw catalogError('catalog has no keywords')
+  }
+  assertUniqueIds(keywords)
+
+  return {
+    order: parseOrderPolicy(root.order),
+    keywords,
+    gateConfig: root.gate === undefined ? null : resolveGateConfig(root.gate),
+    outputSpec: root.output === undefined ? null : resolveOutputSpec(root.output),
+    captureProfile: root.processing === undefined ? null : resolveCaptureProfile(root.processing),
+    fillerPrompts: parseFillerPrompts(root.fillerPrompts, keywords),
+  }
+}
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index]
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current)
+  return cells.map((cell) => cell.trim())
+}
+
+/**
+ * CSV 헤더: text(필수), id, romanization, targetTakes, kind(keyword/filler/background).
+ * CSV에는 순서 정책을 담을 곳이 없어서 호출하는 쪽에서 넘겨준다.
+ */
+export const parseKeywordCatalogCsv = (
+  source: string,
+  order: KeywordOrderPolicy = KeywordOrderPolicy.Sequential,
+): KeywordCatalog => {
+  const lines = source
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+
+  if (lines.length < 2) {
+    throw catalogError('catalog CSV needs a header and at least one row')
+  }
+
+  const header = splitCsvLine(lines[0])
+  if (!header.includes('text')) {
+    throw catalogError('catalog CSV header must include "text"')
+  }
+
+  const keywords = lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line)
+    const row: Record<string, unknown> = {}
+    header.forEach((column, index) => {
+      row[column] = cells[index] ?? ''
+    })
+    return buildEntry(row, DEFAULT_TARGET_TAKES)
+  })
+  assertUniqueIds(keywords)
+
+  return {
+    order: parseOrderPolicy(order),
+    keywords,
+    gateConfig: null,
+    outputSpec: null,
+    captureProfile: null,
+    fillerPrompts: parseFillerPrompts(undefined, keywords),
+  }
+}
+
+export const loadKeywordCatalog = async (
+  url: string = DEFAULT_KEYWORD_CATALOG_URL,
+): Promise<KeywordCatalog> => {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw catalogError(`failed to load catalog (${response.status})`)
+  }
+  const source = await response.text()
+  const isCsv =
+    url.toLowerCase().endsWith('.csv') || response.headers.get('content-type')?.includes('text/csv')
+  return isCsv ? parseKeywordCatalogCsv(source) : parseKeywordCatalogJson(source)
+}
+
+// 참가자마다 같은 시드로 같은 순서를 재현할 수 있도록 간단한 PRNG를 쓴다(mulberry32).
+const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items]
+  for (let index = result.length - 1; index > 0; index -= 1) {
+    const swapIndex = Math.floor(random() * (index + 1))
+    ;[result[index], result[swapIndex]] = [result[swapIndex], result[index]]
+  }
+  return result
+}
+
+/**
+ * 세션 동안 녹음할 키워드 id 목록(take 단위 슬롯)을 만든다.
+ * - sequential: 카탈로그 순서대로 키워드별 목표 횟수를 몰아서
+ * - shuffle: 키워드 순서만 섞고 키워드별로 몰아서
+ * - roundRobin: 매 라운드 섞인 순서로 키워드를 하나씩 돌아가며
+ */
+export const buildSessionPlan = (catalog: KeywordCatalog, seed: number): string[] => {
+  const random = createRandom(seed)
+
+  if (catalog.order === KeywordOrderPolicy.RoundRobin) {
+    const remaining = new Map(catalog.keywords.map((keyword) => [keyword.id, keyword.targetTakes]))
+    const plan: string[] = []
+    while (remaining.size > 0) {
+      for (const id of shuffle([...remaining.keys()], random)) {
+        plan.push(id)
+        const left = (remaining.get(id) ?? 1) - 1
+        if (left <= 0) {
+          remaining.delete(id)
+        } else {
+          remaining.set(id, left)
+        }
+      }
+    }
+    return plan
+  }
+
+  const ordered =
+    catalog.order === KeywordOrderPolicy.Shuffle
+      ? shuffle(catalog.keywords, random)
+      : catalog.keywords
+  return ordered.flatMap((keyword) => Array.from({ length: keyword.targetTakes }, () => keyword.id))
+}
+
+/**
+ * plan과 같은 길이로, 필러 슬롯마다 풀에서 문장을 하나씩 뽑는다. 나머지 슬롯은 null.
+ * 풀을 다 쓰기 전까지는 한 세션에서 같은 문장이 다시 나오지 않는다.
+ */
+export const drawFillerPrompts = (
+  catalog: KeywordCatalog,
+  plan: string[],
+  seed: number,
+): (FillerPrompt | null)[] => {
+  const random = createRandom(seed)
+  const fillerIds = new Set(
+    catalog.keywords
+      .filter((keyword) => keyword.kind === MissionKind.Filler)
+      .map((keyword) => keyword.id),
+  )
+  let deck: FillerPrompt[] = []
+  return plan.map((id) => {
+    if (!fillerIds.has(id)) {
+      return null
+    }
+    if (deck.length === 0) {
+      deck = shuffle(catalog.fillerPrompts, random)
+    }
+    return deck.pop() ?? null
+  })
+}
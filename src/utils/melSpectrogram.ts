@@ -0,0 +1,105 @@
+import { computePowerSpectrum, createHannWindow, nextPowerOfTwo } from './fft'
+
+// 음성 인식 입력에서 흔히 쓰는 25ms 창 / 10ms 간격 / 64 mel 밴드.
+const WINDOW_MS = 25
+const HOP_MS = 10
+const MEL_BIN_COUNT = 64
+const MIN_HZ = 20
+// 가장 큰 값에서 이만큼 아래는 바닥으로 자른다.
+const DYNAMIC_RANGE_DB = 80
+const POWER_EPSILON = 1e-12
+
+export type MelSpectrogramOptions = {
+  windowMs?: number
+  hopMs?: number
+  melBinCount?: number
+}
+
+export type MelSpectrogram = {
+  frameCount: number
+  melBinCount: number
+  hopMs: number
+  // frame * melBinCount + mel 순서의 dB 값. 낮은 주파수가 mel 0.
+  values: Float32Array
+  minDb: number
+  maxDb: number
+}
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700)
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1)
+
+// HTK 방식 삼각 필터. filters[mel]은 FFT bin별 가중치.
+const createMelFilterbank = (
+  melBinCount: number,
+  fftSize: number,
+  sampleRate: number,
+): Float64Array[] => {
+  const binCount = fftSize / 2 + 1
+  const minMel = hzToMel(MIN_HZ)
+  const maxMel = hzToMel(sampleRate / 2)
+  const edgesHz = Array.from({ length: melBinCount + 2 }, (_, index) =>
+    melToHz(minMel + ((maxMel - minMel) * index) / (melBinCount + 1)),
+  )
+  const binHz = sampleRate / fftSize
+
+  return Array.from({ length: melBinCount }, (_, mel) => {
+    const [lowHz, centerHz, highHz] = [edgesHz[mel], edgesHz[mel + 1], edgesHz[mel + 2]]
+    const filter = new Float64Array(binCount)
+    for (let bin = 0; bin < binCount; bin += 1) {
+      const hz = bin * binHz
+      if (hz > lowHz && hz < highHz) {
+        filter[bin] =
+          hz <= centerHz ? (hz - lowHz) / (centerHz - lowHz) : (highHz - hz) / (highHz - centerHz)
+      }
+    }
+    return filter
+  })
+}
+
+/**
+ * mono PCM의 log-mel 스펙트로그램. 시각화용이라 값은 dB로, 최대값 - 80dB 아래는 잘라 둔다.
+ */
+export const computeLogMelSpectrogram = (
+  pcm: Float32Array,
+  sampleRate: number,
+  options?: MelSpectrogramOptions,
+): MelSpectrogram => {
+  const melBinCount = options?.melBinCount ?? MEL_BIN_COUNT
+  const windowSize = Math.max(1, Math.round(((options?.windowMs ?? WINDOW_MS) * sampleRate) / 1000))
+  const hopSize = Math.max(1, Math.round(((options?.hopMs ?? HOP_MS) * sampleRate) / 1000))
+  // 반올림된 실제 간격. 그림의 시간축은 이 값으로 맞춘다.
+  const hopMs = (hopSize / sampleRate) * 1000
+  const fftSize = nextPowerOfTwo(windowSize)
+  const window = createHannWindow(windowSize)
+  const filters = createMelFilterbank(melBinCount, fftSize, sampleRate)
+  const frameCount =
+    pcm.length >= windowSize ? Math.floor((pcm.length - windowSize) / hopSize) + 1 : 0
+  const values = new Float32Array(frameCount * melBinCount)
+
+  let maxDb = -Infinity
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const start = frame * hopSize
+    const power = computePowerSpectrum(pcm.subarray(start, start + windowSize), fftSize, window)
+    for (let mel = 0; mel < melBinCount; mel += 1) {
+      const filter = filters[mel]
+      let energy = 0
+      for (let bin = 0; bin < power.length; bin += 1) {
+        energy += filter[bin] * power[bin]
+      }
+      const db = 10 * Math.log10(energy + POWER_EPSILON)
+      values[frame * melBinCount + mel] = db
+      if (db > maxDb) {
+        maxDb = db
+      }
+    }
+  }
+
+  if (frameCount === 0) {
+    return { frameCount, melBinCount, hopMs, values, minDb: 0, maxDb: 0 }
+  }
+  const minDb = maxDb - DYNAMIC_RANGE_DB
+  for (let index = 0; index < values.length; index += 1) {
+    values[index] = Math.max(minDb, values[index])
+  }
+  return { frameCount, melBinCount, hopMs, values, minDb, maxDb }
+}
@@ -0,0 +1,30 @@
+export const MissionKind = {
+  // 카탈로그의 웨이크워드/명령어
+  Keyword: 'keyword',
+  // 키워드가 아닌 아무 단어. 모델의 "unknown" 클래스용.
+  Filler: 'filler',
+  // 클립 길이 동안 아무 말 없이 방 소리만. 모델의 "silence" 클래스용.
+  Background: 'background',
+} as const
+
+export type MissionKind = (typeof MissionKind)[keyof typeof MissionKind]
+
+// Speech Commands 학습 스크립트가 쓰는 예약 라벨.
+export const UNKNOWN_LABEL = '_unknown_'
+export const SILENCE_LABEL = '_silence_'
+
+export const MISSION_KINDS = Object.values(MissionKind) as string[]
+
+/**
+ * 내보낼 때 쓰는 학습 라벨. 키워드는 키워드 id, 나머지는 예약 라벨로 묶는다.
+ * 필러 단어가 무엇이었는지는 keywordId/keywordText에 따로 남는다.
+ */
+export const toTrainingLabel = (kind: MissionKind, keywordId: string | null): string => {
+  if (kind === MissionKind.Background) {
+    return SILENCE_LABEL
+  }
+  if (kind === MissionKind.Filler) {
+    return UNKNOWN_LABEL
+  }
+  return keywordId ?? UNKNOWN_LABEL
+}
@@ -0,0 +1,160 @@
+export const SampleFormat = {
+  Pcm16: 'pcm16',
+  Pcm24: 'pcm24',
+  Float32: 'float32',
+} as const
+
+export type SampleFormat = (typeof SampleFormat)[keyof typeof SampleFormat]
+
+export const AudioContainer = {
+  Wav: 'wav',
+  Flac: 'flac',
+} as const
+
+export type AudioContainer = (typeof AudioContainer)[keyof typeof AudioContainer]
+
+export const OUTPUT_SAMPLE_RATES = [8000, 16000, 22050, 48000] as const
+const MIN_DURATION_MS = 500
+const MAX_DURATION_MS = 10000
+
+export const OutputPresetId = {
+  Default: 'default',
+  // Speech Commands 데이터셋과 같은 1초 16kHz 16-bit WAV.
+  SpeechCommands: 'speechCommands',
+  // 나중에 다른 형식으로 다시 뽑을 수 있게 원본에 가깝게 보관한다.
+  Archive: 'archive',
+} as const
+
+export type OutputPresetId = (typeof OutputPresetId)[keyof typeof OutputPresetId]
+
+/**
+ * 녹음 길이, 변환, 게이트, 저장 파일이 모두 따르는 출력 형식 하나.
+ * durationMs가 곧 녹음 시간이자 최종 클립 길이다.
+ */
+export type OutputSpec = {
+  presetId: string
+  sampleRate: number
+  sampleFormat: SampleFormat
+  durationMs: number
+  container: AudioContainer
+}
+
+// 캠페인 설정에서 받는 형태: 프리셋 id 문자열, 또는 기반 프리셋 + 덮어쓸 값.
+export type OutputSpecInput =
+  | string
+  | ({ id?: string; preset?: string } & Partial<Omit<OutputSpec, 'presetId'>>)
+
+export const DEFAULT_OUTPUT_SPEC: OutputSpec = {
+  presetId: OutputPresetId.Default,
+  sampleRate: 16000,
+  sampleFormat: SampleFormat.Pcm16,
+  durationMs: 2000,
+  container: AudioContainer.Wav,
+}
+
+export const OUTPUT_PRESETS: Record<OutputPresetId, OutputSpec> = {
+  [OutputPresetId.Default]: DEFAULT_OUTPUT_SPEC,
+  [OutputPresetId.SpeechCommands]: {
+    ...DEFAULT_OUTPUT_SPEC,
+    presetId: OutputPresetId.SpeechCommands,
+    durationMs: 1000,
+  },
+  [OutputPresetId.Archive]: {
+    ...DEFAULT_OUTPUT_SPEC,
+    presetId: OutputPresetId.Archive,
+    sampleRate: 48000,
+    sampleFormat: SampleFormat.Pcm24,
+    container: AudioContainer.Flac,
+  },
+}
+
+const OUTPUT_MIME_TYPES: Record<AudioContainer, string> = {
+  [AudioContainer.Wav]: 'audio/wav',
+  [AudioContainer.Flac]: 'audio/flac',
+}
+
+const SAMPLE_FORMAT_LABELS: Record<SampleFormat, string> = {
+  [SampleFormat.Pcm16]: '16-bit PCM',
+  [SampleFormat.Pcm24]: '24-bit PCM',
+  [SampleFormat.Float32]: '32-bit float',
+}
+
+const SPEC_KEYS = ['sampleRate', 'sampleFormat', 'durationMs', 'container'] as const
+
+const outputSpecError = (message: string) => new DOMException(message, 'OutputSpecError')
+
+const isOutputPresetId = (value: string): value is OutputPresetId =>
+  Object.prototype.hasOwnProperty.call(OUTPUT_PRESETS, value)
+
+export const getOutputSampleCount = (spec: OutputSpec): number =>
+  Math.round((spec.sampleRate * spec.durationMs) / 1000)
+
+export const getOutputMimeType = (spec: OutputSpec): string => OUTPUT_MIME_TYPES[spec.container]
+
+export const getOutputFileExtension = (spec: OutputSpec): string => spec.container
+
+// 미리듣기 메타 줄용. 예: "16-bit PCM WAV · 16000Hz mono"
+export const describeOutputSpec = (spec: OutputSpec): string =>
+  `${SAMPLE_FORMAT_LABELS[spec.sampleFormat]} ${spec.container.toUpperCase()} · ${spec.sampleRate}Hz mono`
+
+/**
+ * 값의 범위와 조합을 검사한다. 틀리면 OutputSpecError를 던진다.
+ */
+export const validateOutputSpec = (spec: OutputSpec): OutputSpec => {
+  if (!spec.presetId.trim()) {
+    throw outputSpecError('presetId is required')
+  }
+  if (!(OUTPUT_SAMPLE_RATES as readonly number[]).includes(spec.sampleRate)) {
+    throw outputSpecError(`unsupported sample rate: ${String(spec.sampleRate)}`)
+  }
+  if (!(Object.values(SampleFormat) as string[]).includes(spec.sampleFormat)) {
+    throw outputSpecError(`unknown sample format: ${String(spec.sampleFormat)}`)
+  }
+  if (!(Object.values(AudioContainer) as string[]).includes(spec.container)) {
+    throw outputSpecError(`unknown container: ${String(spec.container)}`)
+  }
+  if (
+    !Number.isInteger(spec.durationMs) ||
+    spec.durationMs < MIN_DURATION_MS ||
+    spec.durationMs > MAX_DURATION_MS
+  ) {
+    throw outputSpecError(`durationMs must be an integer in [${MIN_DURATION_MS}, ${MAX_DURATION_MS}]`)
+  }
+  // FLAC은 정수 샘플만 담을 수 있다.
+  if (spec.container === AudioContainer.Flac && spec.sampleFormat === SampleFormat.Float32) {
+    throw outputSpecError('FLAC does not support float32 samples')
+  }
+  return spec
+}
+
+export const resolveOutputSpec = (input: unknown): OutputSpec => {
+  if (input === undefined || input === null || input === '') {
+    return DEFAULT_OUTPUT_SPEC
+  }
+  if (typeof input === 'string') {
+    if (!isOutputPresetId(input)) {
+      throw outputSpecError(`unknown output preset: ${input}`)
+    }
+    return OUTPUT_PRESETS[input]
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw outputSpecError('output spec must be a preset id or an object')
+  }
+
+  const { id, preset, ...overrides } = input as Record<string, unknown>
+  const base = resolveOutputSpec(preset ?? OutputPresetId.Default)
+  for (const key of Object.keys(overrides)) {
+    if (!(SPEC_KEYS as readonly string[]).includes(key)) {
+      throw outputSpecError(`unknown output spec key: ${key}`)
+    }
+  }
+  const hasOverrides = Object.keys(overrides).length > 0
+  const presetId =
+    typeof id === 'string' && id.trim()
+      ? id.trim()
+      : hasOverrides
+        ? `${base.presetId}+custom`
+        : base.presetId
+
+  return validateOutputSpec({ ...base, ...(overrides as Partial<OutputSpec>), presetId })
+}
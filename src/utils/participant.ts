@@ -0,0 +1,72 @@
+const SPEAKER_ID_STORAGE_KEY = 'kws.speakerId'
+
+// Speech Commands 데이터셋처럼 화자 id는 8자리 hex. 이름 등 개인정보는 담지 않는다.
+const createSpeakerId = () => {
+  const bytes = new Uint8Array(4)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+let memorySpeakerId: string | null = null
+
+/**
+ * 브라우저(프로필)마다 고정된 익명 화자 id. localStorage를 못 쓰면 탭이 살아있는 동안만 유지된다.
+ */
+export const getSpeakerId = (): string => {
+  try {
+    const stored = window.localStorage.getItem(SPEAKER_ID_STORAGE_KEY)
+    if (stored && /^[0-9a-f]{8}$/.test(stored)) {
+      return stored
+    }
+    const created = createSpeakerId()
+    window.localStorage.setItem(SPEAKER_ID_STORAGE_KEY, created)
+    return created
+  } catch {
+    memorySpeakerId ??= createSpeakerId()
+    return memorySpeakerId
+  }
+}
+
+const REVIEWER_ID_STORAGE_KEY = 'kws.reviewerId'
+
+// 검수자 id는 사람이 정하는 짧은 이름. 내보낸 reviews.csv에 그대로 남는다.
+export const normalizeReviewerId = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '')
+    .slice(0, 32)
+
+let memoryReviewerId: string | null = null
+
+/**
+ * ?reviewer= 파라미터가 있으면 그 값을, 없으면 이 브라우저에 저장된 검수자 id를 쓴다. 정한 적 없으면 null.
+ */
+export const getReviewerId = (): string | null => {
+  const fromQuery = normalizeReviewerId(
+    new URLSearchParams(window.location.search).get('reviewer') ?? '',
+  )
+  if (fromQuery) {
+    return fromQuery
+  }
+  try {
+    return normalizeReviewerId(window.localStorage.getItem(REVIEWER_ID_STORAGE_KEY) ?? '') || null
+  } catch {
+    return memoryReviewerId
+  }
+}
+
+export const setReviewerId = (value: string): string | null => {
+  const reviewerId = normalizeReviewerId(value) || null
+  memoryReviewerId = reviewerId
+  try {
+    if (reviewerId) {
+      window.localStorage.setItem(REVIEWER_ID_STORAGE_KEY, reviewerId)
+    } else {
+      window.localStorage.removeItem(REVIEWER_ID_STORAGE_KEY)
+    }
+  } catch {
+    // localStorage를 못 쓰면 이 탭에서만 기억한다.
+  }
+  return reviewerId
+}
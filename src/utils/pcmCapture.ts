@@ -0,0 +1,151 @@
+import pcmCaptureProcessorUrl from '../worklets/pcmCaptureProcessor.ts?worker&url'
+import type { PcmClip } from './audioUtils'
+
+const PCM_CAPTURE_PROCESSOR_NAME = 'kws-pcm-capture'
+const STOP_TIMEOUT_MS = 2000
+
+export const PCM_SOURCE_MIME_TYPE = 'audio/pcm;format=float32'
+
+type CaptureMessage =
+  | { type: 'chunk'; samples: Float32Array }
+  | { type: 'stopped'; preRollFrames: number }
+  | { type: 'snapshot'; samples: Float32Array }
+
+export type CapturedPcm = PcmClip & {
+  // pcm 앞부분 중 start 이전(pre-roll 링 버퍼)에서 온 샘플 수
+  preRollSamples: number
+}
+
+export type PcmCapture = {
+  sampleRate: number
+  start: (options?: { includePreRoll?: boolean }) => void
+  stop: () => Promise<CapturedPcm>
+  snapshotPreRoll: () => Promise<PcmClip>
+  close: () => Promise<void>
+}
+
+type PcmCaptureOptions = {
+  preRollMs?: number
+}
+
+export const isAudioWorkletSupported = (): boolean =>
+  typeof window !== 'undefined' &&
+  typeof window.AudioContext !== 'undefined' &&
+  typeof AudioWorkletNode !== 'undefined' &&
+  'audioWorklet' in AudioContext.prototype
+
+const concatChunks = (chunks: Float32Array[]): Float32Array => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  const result = new Float32Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+/**
+ * MediaRecorder 없이 AudioWorklet으로 Float32 PCM을 그대로 받는다.
+ * opus/webm 인코딩 -> 디코딩을 거치지 않아서 손실이 없다.
+ * 스트림 하나에 한 번 만들고 take마다 start/stop 한다. 만들어 둔 동안에는 최근 preRollMs를
+ * 링 버퍼에 계속 들고 있어서, 버튼을 누르기 직전에 시작된 발화도 take 앞에 붙일 수 있다.
+ */
+export const createPcmCapture = async (
+  stream: MediaStream,
+  options?: PcmCaptureOptions,
+): Promise<PcmCapture> => {
+  if (!isAudioWorkletSupported()) {
+    throw new DOMException('AudioWorklet is not supported', 'NotSupportedError')
+  }
+
+  const audioContext = new AudioContext()
+  try {
+    await audioContext.audioWorklet.addModule(pcmCaptureProcessorUrl)
+  } catch (error) {
+    await audioContext.close()
+    throw error
+  }
+
+  const source = audioContext.createMediaStreamSource(stream)
+  const node = new AudioWorkletNode(audioContext, PCM_CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCountMode: 'max',
+    processorOptions: { preRollMs: options?.preRollMs ?? 0 },
+  })
+  // 출력이 destination까지 이어져 있어야 process()가 꾸준히 불린다. 소리는 내보내지 않는다.
+  const mute = audioContext.createGain()
+  mute.gain.value = 0
+  source.connect(node)
+  node.connect(mute)
+  mute.connect(audioContext.destination)
+
+  let chunks: Float32Array[] = []
+  let pendingStop: ((captured: CapturedPcm) => void) | null = null
+  const pendingSnapshots: ((clip: PcmClip) => void)[] = []
+
+  node.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+    const message = event.data
+    if (message.type === 'chunk') {
+      chunks.push(message.samples)
+      return
+    }
+    if (message.type === 'snapshot') {
+      pendingSnapshots.shift()?.({ pcm: message.samples, sampleRate: audioContext.sampleRate })
+      return
+    }
+    pendingStop?.({
+      pcm: concatChunks(chunks),
+      sampleRate: audioContext.sampleRate,
+      preRollSamples: message.preRollFrames,
+    })
+    pendingStop = null
+    chunks = []
+  }
+
+  return {
+    sampleRate: audioContext.sampleRate,
+    start: (startOptions) => {
+      chunks = []
+      // 탭 전환 등으로 suspended 된 컨텍스트는 사용자 제스처 안에서 다시 깨운다.
+      void audioContext.resume()
+      node.port.postMessage({
+        type: 'start',
+        includePreRoll: startOptions?.includePreRoll ?? false,
+      })
+    },
+    stop: () =>
+      new Promise<CapturedPcm>((resolve) => {
+        const timeoutId = window.setTimeout(() => {
+          pendingStop = null
+          resolve({
+            pcm: concatChunks(chunks),
+            sampleRate: audioContext.sampleRate,
+            preRollSamples: 0,
+          })
+          chunks = []
+        }, STOP_TIMEOUT_MS)
+        pendingStop = (captured) => {
+          window.clearTimeout(timeoutId)
+          resolve(captured)
+        }
+        node.port.postMessage({ type: 'stop' })
+      }),
+    snapshotPreRoll: () =>
+      new Promise<PcmClip>((resolve) => {
+        void audioContext.resume()
+        pendingSnapshots.push(resolve)
+        node.port.postMessage({ type: 'snapshot' })
+      }),
+    close: async () => {
+      node.port.onmessage = null
+      source.disconnect()
+      node.disconnect()
+      mute.disconnect()
+      if (audioContext.state !== 'closed') {
+        await audioContext.close()
+      }
+    },
+  }
+}
@@ -0,0 +1,157 @@
+// Kaiser 창 windowed-sinc 리샘플러. 입력/출력 레이트의 최대공약수로 위상 수를 정하고
+// 위상별 필터를 처음 쓸 때 한 번만 만들어 재사용한다(polyphase).
+//
+// Math.sin/Math.exp는 엔진마다 마지막 비트가 다를 수 있어서 필터 계수는 사칙연산과 sqrt로만 만든다.
+// 그래서 같은 입력이면 브라우저/Node 어디서든 비트 단위로 같은 결과가 나온다.
+
+// 통과 대역 끝을 나이퀴스트보다 조금 낮춰 전이 대역에서 생기는 에일리어싱을 막는다.
+const ROLLOFF = 0.94
+// 필터 한쪽에 들어가는 sinc 영점 개수. 클수록 전이 대역이 좁아진다.
+const ZERO_CROSSINGS = 24
+// 약 -80dB 저지 대역.
+const KAISER_BETA = 8
+const BESSEL_TOLERANCE = 1e-21
+
+const gcd = (a: number, b: number): number => {
+  let x = a
+  let y = b
+  while (y !== 0) {
+    const rest = x % y
+    x = y
+    y = rest
+  }
+  return x
+}
+
+// sin(pi * x). 범위를 [-1/2, 1/2]로 줄인 뒤 테일러 급수로 계산한다.
+const sinPi = (x: number): number => {
+  let reduced = x - 2 * Math.round(x / 2)
+  if (reduced > 0.5) {
+    reduced = 1 - reduced
+  } else if (reduced < -0.5) {
+    reduced = -1 - reduced
+  }
+  const angle = Math.PI * reduced
+  const square = angle * angle
+  let term = angle
+  let sum = angle
+  for (let n = 1; n <= 12; n += 1) {
+    term = (-term * square) / ((2 * n) * (2 * n + 1))
+    sum += term
+  }
+  return sum
+}
+
+// 0차 변형 베셀 함수 I0. 급수의 항이 충분히 작아질 때까지 더한다.
+const besselI0 = (x: number): number => {
+  const half = x / 2
+  let term = 1
+  let sum = 1
+  for (let k = 1; k < 200; k += 1) {
+    term *= half / k
+    const squared = term * term
+    sum += squared
+    if (squared < sum * BESSEL_TOLERANCE) {
+      break
+    }
+  }
+  return sum
+}
+
+const sinc = (x: number): number => (x === 0 ? 1 : sinPi(x) / (Math.PI * x))
+
+type Resampler = {
+  // 위상 = (출력 위치 * inputRate) mod outputRate를 gcd로 나눈 값.
+  phaseCount: number
+  step: number
+  halfWidth: number
+  cutoff: number
+  kernels: (Float64Array | undefined)[]
+  // Kaiser 창을 0~1로 맞추는 I0(beta).
+  windowNorm: number
+}
+
+const createResampler = (inputRate: number, outputRate: number): Resampler => {
+  const divisor = gcd(inputRate, outputRate)
+  // 입력 샘플 주기 기준 차단 주파수. 다운샘플링이면 출력 나이퀴스트에 맞춘다.
+  const cutoff = 0.5 * Math.min(1, outputRate / inputRate) * ROLLOFF
+  return {
+    phaseCount: outputRate / divisor,
+    step: inputRate / divisor,
+    halfWidth: Math.ceil(ZERO_CROSSINGS / (2 * cutoff)),
+    cutoff,
+    kernels: [],
+    windowNorm: besselI0(KAISER_BETA),
+  }
+}
+
+// 입력 샘플 base + 1 - halfWidth ... base + halfWidth 에 곱할 계수. 합이 1이 되게 맞춘다.
+const getKernel = (resampler: Resampler, phase: number): Float64Array => {
+  const cached = resampler.kernels[phase]
+  if (cached) {
+    return cached
+  }
+  const { halfWidth, cutoff, phaseCount } = resampler
+  const fraction = phase / phaseCount
+  const kernel = new Float64Array(halfWidth * 2)
+  let total = 0
+  for (let tap = 0; tap < kernel.length; tap += 1) {
+    const distance = tap + 1 - halfWidth - fraction
+    const position = distance / halfWidth
+    const window =
+      position <= -1 || position >= 1
+        ? 0
+        : besselI0(KAISER_BETA * Math.sqrt(1 - position * position)) / resampler.windowNorm
+    const value = 2 * cutoff * sinc(2 * cutoff * distance) * window
+    kernel[tap] = value
+    total += value
+  }
+  if (total !== 0) {
+    for (let tap = 0; tap < kernel.length; tap += 1) {
+      kernel[tap] /= total
+    }
+  }
+  resampler.kernels[phase] = kernel
+  return kernel
+}
+
+/**
+ * mono PCM의 샘플레이트를 바꾼다. 출력 길이는 round(입력 길이 * outputRate / inputRate).
+ * 입력 앞뒤 바깥은 0으로 본다.
+ */
+export const resamplePcm = (
+  input: Float32Array,
+  inputRate: number,
+  outputRate: number,
+): Float32Array => {
+  const isValidRate = (rate: number) => Number.isInteger(rate) && rate > 0
+  if (!isValidRate(inputRate) || !isValidRate(outputRate)) {
+    throw new DOMException(`invalid sample rates: ${inputRate} -> ${outputRate}`, 'NotSupportedError')
+  }
+  if (inputRate === outputRate) {
+    return input
+  }
+
+  const resampler = createResampler(inputRate, outputRate)
+  const { phaseCount, step, halfWidth } = resampler
+  const outputLength = Math.max(1, Math.round((input.length * outputRate) / inputRate))
+  const output = new Float32Array(outputLength)
+
+  for (let index = 0; index < outputLength; index += 1) {
+    // 출력 index의 입력 위치 = index * step / phaseCount. 정수 연산으로 나눠 오차가 쌓이지 않게 한다.
+    const numerator = index * step
+    const base = Math.floor(numerator / phaseCount)
+    const kernel = getKernel(resampler, numerator - base * phaseCount)
+    const first = base + 1 - halfWidth
+    let sum = 0
+    for (let tap = 0; tap < kernel.length; tap += 1) {
+      const source = first + tap
+      if (source >= 0 && source < input.length) {
+        sum += input[source] * kernel[tap]
+      }
+    }
+    output[index] = sum
+  }
+
+  return output
+}
@@ -0,0 +1,220 @@
+import type { GateDecision } from './gate'
+
+export const ReviewVerdict = {
+  Accept: 'accept',
+  Reject: 'reject',
+  // 소리는 쓸 만한데 라벨이 틀렸다(다른 키워드를 말함, 키워드가 아님 등).
+  Relabel: 'relabel',
+} as const
+
+export type ReviewVerdict = (typeof ReviewVerdict)[keyof typeof ReviewVerdict]
+
+/**
+ * 검수자 한 명이 take 하나에 내린 판정. 같은 검수자가 다시 보면 덮어쓴다.
+ */
+export type TakeReview = {
+  // `${takeId}:${reviewerId}`
+  id: string
+  takeId: string
+  reviewerId: string
+  verdict: ReviewVerdict
+  // relabel일 때만 새 학습 라벨(키워드 id, _unknown_, _silence_).
+  label: string | null
+  reason: string
+  reviewedAt: number
+}
+
+// 자주 쓰는 사유. 검수 화면에서 숫자 키로 고른다.
+export const REVIEW_REASON_PRESETS: Record<ReviewVerdict, string[]> = {
+  [ReviewVerdict.Accept]: ['또렷함', '작지만 알아들을 수 있음', '잡음 있지만 괜찮음'],
+  [ReviewVerdict.Reject]: [
+    '말이 잘림',
+    '말소리 없음',
+    '잡음이 큼',
+    '여러 사람 목소리',
+    '소리가 깨짐',
+  ],
+  [ReviewVerdict.Relabel]: ['다른 키워드를 말함', '키워드가 아님', '말 없이 배경 소리만'],
+}
+
+export type ReviewedTake = {
+  id: string
+  // 녹음할 때 붙은 학습 라벨.
+  label: string
+  gateDecision: GateDecision
+}
+
+export type TakeConsensus = {
+  reviewCount: number
+  // 다수결. 동률이면 null.
+  verdict: ReviewVerdict | null
+  // 다수결 판정이 reject가 아니면 최종 학습 라벨.
+  label: string | null
+  // 다수 의견과 같은 판정 비율(0~1).
+  agreement: number
+}
+
+export type GateConfusion = {
+  // PASS인데 사람도 받아들임 / PASS인데 사람은 거절 / PASS가 아닌데 사람은 받아들임 / 둘 다 거절.
+  truePositive: number
+  falsePositive: number
+  falseNegative: number
+  trueNegative: number
+  // 분모가 0이면 null.
+  precision: number | null
+  recall: number | null
+}
+
+export type ReviewStats = {
+  reviewerIds: string[]
+  reviewCount: number
+  reviewedTakeCount: number
+  // 두 명 이상이 본 take 수. 일치도는 이 take들로만 계산한다.
+  multiReviewedTakeCount: number
+  // take마다 검수자 쌍이 같은 판정을 낸 비율의 평균.
+  pairwiseAgreement: number | null
+  // 검수자 수가 take마다 달라도 되는 Fleiss' kappa.
+  fleissKappa: number | null
+  gate: GateConfusion
+  // 게이트 판정별로 사람 합의가 어떻게 나왔는지. AMBIG가 실제로 어느 쪽인지 볼 수 있다.
+  byGateDecision: Record<GateDecision, { accepted: number; rejected: number }>
+}
+
+export const createReviewId = (takeId: string, reviewerId: string) => `${takeId}:${reviewerId}`
+
+// 같은 의견인지 볼 때 쓰는 범주. accept와 원래 라벨로 relabel한 것은 같은 의견이다.
+const toCategory = (review: TakeReview, originalLabel: string): string =>
+  review.verdict === ReviewVerdict.Reject
+    ? ReviewVerdict.Reject
+    : `label:${review.verdict === ReviewVerdict.Relabel ? review.label : originalLabel}`
+
+const groupByTake = (reviews: TakeReview[]): Map<string, TakeReview[]> => {
+  const groups = new Map<string, TakeReview[]>()
+  for (const review of reviews) {
+    groups.set(review.takeId, [...(groups.get(review.takeId) ?? []), review])
+  }
+  return groups
+}
+
+const countCategories = (reviews: TakeReview[], originalLabel: string): Map<string, number> => {
+  const counts = new Map<string, number>()
+  for (const review of reviews) {
+    const category = toCategory(review, originalLabel)
+    counts.set(category, (counts.get(category) ?? 0) + 1)
+  }
+  return counts
+}
+
+export const summarizeTakeReviews = (
+  reviews: TakeReview[],
+  originalLabel: string,
+): TakeConsensus => {
+  if (reviews.length === 0) {
+    return { reviewCount: 0, verdict: null, label: null, agreement: 0 }
+  }
+
+  const ranked = [...countCategories(reviews, originalLabel)].sort((a, b) => b[1] - a[1])
+  const [topCategory, topCount] = ranked[0]
+  const agreement = topCount / reviews.length
+  if (ranked.length > 1 && ranked[1][1] === topCount) {
+    return { reviewCount: reviews.length, verdict: null, label: null, agreement }
+  }
+  if (topCategory === ReviewVerdict.Reject) {
+    return { reviewCount: reviews.length, verdict: ReviewVerdict.Reject, label: null, agreement }
+  }
+  const label = topCategory.slice('label:'.length)
+  return {
+    reviewCount: reviews.length,
+    verdict: label === originalLabel ? ReviewVerdict.Accept : ReviewVerdict.Relabel,
+    label,
+    agreement,
+  }
+}
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : null
+
+/**
+ * 검수자 간 일치도와, 사람 합의를 정답으로 본 게이트의 PASS precision/recall.
+ * 합의가 동률인 take는 게이트 비교에서 뺀다.
+ */
+export const computeReviewStats = (takes: ReviewedTake[], reviews: TakeReview[]): ReviewStats => {
+  const groups = groupByTake(reviews)
+  const gate: GateConfusion = {
+    truePositive: 0,
+    falsePositive: 0,
+    falseNegative: 0,
+    trueNegative: 0,
+    precision: null,
+    recall: null,
+  }
+  const byGateDecision: ReviewStats['byGateDecision'] = {
+    PASS: { accepted: 0, rejected: 0 },
+    AMBIG: { accepted: 0, rejected: 0 },
+    REJECT: { accepted: 0, rejected: 0 },
+  }
+
+  let reviewedTakeCount = 0
+  let multiReviewedTakeCount = 0
+  let agreementSum = 0
+  let raterTotal = 0
+  const categoryTotals = new Map<string, number>()
+
+  for (const take of takes) {
+    const takeReviews = groups.get(take.id) ?? []
+    if (takeReviews.length === 0) {
+      continue
+    }
+    reviewedTakeCount += 1
+
+    const consensus = summarizeTakeReviews(takeReviews, take.label)
+    if (consensus.verdict !== null) {
+      const accepted = consensus.verdict !== ReviewVerdict.Reject
+      const passed = take.gateDecision === 'PASS'
+      if (passed) {
+        gate[accepted ? 'truePositive' : 'falsePositive'] += 1
+      } else {
+        gate[accepted ? 'falseNegative' : 'trueNegative'] += 1
+      }
+      byGateDecision[take.gateDecision][accepted ? 'accepted' : 'rejected'] += 1
+    }
+
+    const raterCount = takeReviews.length
+    if (raterCount < 2) {
+      continue
+    }
+    multiReviewedTakeCount += 1
+    let agreeingPairs = 0
+    for (const [category, count] of countCategories(takeReviews, take.label)) {
+      agreeingPairs += count * (count - 1)
+      categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + count)
+    }
+    agreementSum += agreeingPairs / (raterCount * (raterCount - 1))
+    raterTotal += raterCount
+  }
+
+  gate.precision = ratio(gate.truePositive, gate.truePositive + gate.falsePositive)
+  gate.recall = ratio(gate.truePositive, gate.truePositive + gate.falseNegative)
+
+  const pairwiseAgreement = ratio(agreementSum, multiReviewedTakeCount)
+  let fleissKappa: number | null = null
+  if (pairwiseAgreement !== null) {
+    let expected = 0
+    for (const count of categoryTotals.values()) {
+      expected += (count / raterTotal) ** 2
+    }
+    // 모두가 한 범주만 골랐으면 우연 일치와 구분할 수 없다.
+    fleissKappa = expected < 1 ? (pairwiseAgreement - expected) / (1 - expected) : null
+  }
+
+  return {
+    reviewerIds: [...new Set(reviews.map((review) => review.reviewerId))].sort(),
+    reviewCount: reviews.length,
+    reviewedTakeCount,
+    multiReviewedTakeCount,
+    pairwiseAgreement,
+    fleissKappa,
+    gate,
+    byGateDecision,
+  }
+}
@@ -0,0 +1,176 @@
+import { normalizeReviewerId } from './participant'
+import { createReviewId, ReviewVerdict, type TakeReview } from './review'
+
+/**
+ * 다른 검수자가 내보낸 검수 결과를 읽는다. 받는 형식:
+ *   reviews.csv       검수 결과와 함께 내보낸 zip 안의 파일(한 줄에 검수 한 건)
+ *   manifest.jsonl    같은 zip 안의 파일. 줄마다 reviews 배열이 있다.
+ *   JSON              TakeReview 배열 또는 { reviews: TakeReview[] }
+ */
+
+export type ReviewMergeResult = {
+  // 새로 저장하거나 더 최근 판정으로 덮어쓸 검수.
+  toSave: TakeReview[]
+  // 이미 같거나 더 최근 판정이 있어서 건너뛴 수.
+  skippedCount: number
+}
+
+const reviewImportError = (message: string) => new DOMException(message, 'ReviewImportError')
+
+const REVIEW_VERDICTS = Object.values(ReviewVerdict) as string[]
+
+// 따옴표 안의 줄바꿈(사유에 들어갈 수 있다)까지 처리하는 CSV 파서.
+const parseCsvRows = (source: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index]
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        current += '"'
+        index += 1
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(current)
+      current = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index += 1
+      }
+      row.push(current)
+      rows.push(row)
+      row = []
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current || row.length > 0) {
+    row.push(current)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()))
+}
+
+const parseReviewedAt = (value: unknown): number => {
+  const reviewedAt = typeof value === 'number' ? value : Date.parse(String(value ?? ''))
+  if (!Number.isFinite(reviewedAt)) {
+    throw reviewImportError(`invalid reviewed_at: ${String(value)}`)
+  }
+  return reviewedAt
+}
+
+const toReview = (raw: Record<string, unknown>): TakeReview => {
+  const takeId = String(raw.takeId ?? '').trim()
+  const reviewerId = normalizeReviewerId(String(raw.reviewerId ?? ''))
+  const verdict = String(raw.verdict ?? '').trim()
+  if (!takeId || !reviewerId) {
+    throw reviewImportError('review needs a take id and a reviewer id')
+  }
+  if (!REVIEW_VERDICTS.includes(verdict)) {
+    throw reviewImportError(`invalid verdict: ${verdict}`)
+  }
+  const label = String(raw.label ?? '').trim()
+  if (verdict === ReviewVerdict.Relabel && !label) {
+    throw reviewImportError(`relabel review of ${takeId} has no label`)
+  }
+  return {
+    id: createReviewId(takeId, reviewerId),
+    takeId,
+    reviewerId,
+    verdict: verdict as ReviewVerdict,
+    label: verdict === ReviewVerdict.Relabel ? label : null,
+    reason: String(raw.reason ?? '').trim(),
+    reviewedAt: parseReviewedAt(raw.reviewedAt),
+  }
+}
+
+export const parseReviewsCsv = (source: string): TakeReview[] => {
+  const [header, ...rows] = parseCsvRows(source.replace(/^\uFEFF/, ''))
+  const columns = header?.map((cell) => cell.trim()) ?? []
+  for (const required of ['take_id', 'reviewer_id', 'verdict', 'reviewed_at']) {
+    if (!columns.includes(required)) {
+      throw reviewImportError(`reviews CSV header must include "${required}"`)
+    }
+  }
+
+  return rows.map((cells) => {
+    const cell = (column: string) => cells[columns.indexOf(column)] ?? ''
+    return toReview({
+      takeId: cell('take_id'),
+      reviewerId: cell('reviewer_id'),
+      verdict: cell('verdict'),
+      label: cell('review_label'),
+      reason: cell('reason'),
+      reviewedAt: cell('reviewed_at'),
+    })
+  })
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const parseReviewsJson = (source: string): TakeReview[] => {
+  const trimmed = source.trim()
+  let records: unknown[]
+  try {
+    if (trimmed.startsWith('[')) {
+      records = JSON.parse(trimmed) as unknown[]
+    } else {
+      // manifest.jsonl 이면 줄마다, 아니면 { reviews } 하나.
+      records = trimmed
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .flatMap((line) => {
+          const parsed: unknown = JSON.parse(line)
+          return isRecord(parsed) && Array.isArray(parsed.reviews) ? parsed.reviews : [parsed]
+        })
+    }
+  } catch {
+    throw reviewImportError('reviews file is not valid JSON')
+  }
+  return records.map((record) => {
+    if (!isRecord(record)) {
+      throw reviewImportError('each review must be an object')
+    }
+    return toReview(record)
+  })
+}
+
+export const parseReviewExport = (source: string, fileName: string): TakeReview[] => {
+  const isCsv =
+    fileName.toLowerCase().endsWith('.csv') || !/^\s*[[{]/.test(source.replace(/^\uFEFF/, ''))
+  return isCsv ? parseReviewsCsv(source) : parseReviewsJson(source)
+}
+
+/**
+ * (takeId, reviewerId)마다 한 건만 남긴다. 같은 검수자가 다시 보면 덮어쓰는 것과 같은 규칙으로
+ * reviewedAt이 더 최근인 쪽을 고른다.
+ */
+export const mergeReviews = (existing: TakeReview[], incoming: TakeReview[]): ReviewMergeResult => {
+  const latest = new Map(existing.map((review) => [review.id, review]))
+  const toSave = new Map<string, TakeReview>()
+  let skippedCount = 0
+  for (const review of incoming) {
+    const current = latest.get(review.id)
+    if (current && current.reviewedAt >= review.reviewedAt) {
+      skippedCount += 1
+      continue
+    }
+    if (toSave.has(review.id)) {
+      skippedCount += 1
+    }
+    latest.set(review.id, review)
+    toSave.set(review.id, review)
+  }
+  return { toSave: [...toSave.values()], skippedCount }
+}
@@ -0,0 +1,316 @@
+import type { SpeechAlignment } from './alignment'
+import type { DeviceInfo } from './deviceInfo'
+import type { AcousticFingerprint, FingerprintCandidate } from './fingerprint'
+import type { GateResult } from './gate'
+import type { FillerPrompt } from './keywordCatalog'
+import type { MissionKind } from './mission'
+import type { OutputSpec } from './outputSpec'
+import type { TakeReview } from './review'
+
+const DB_NAME = 'kws-datacollection'
+const DB_VERSION = 3
+const TAKE_STORE = 'takes'
+const SESSION_STORE = 'sessions'
+const UPLOAD_STORE = 'uploads'
+const REVIEW_STORE = 'reviews'
+
+export type StoredTake = {
+  id: string
+  sessionId: string
+  speakerId: string
+  keywordId: string | null
+  keywordText: string | null
+  // 이 필드가 생기기 전에 저장된 take는 모두 키워드 미션이라 값이 없으면 keyword로 읽는다.
+  missionKind?: MissionKind
+  wav: Blob
+  sizeBytes: number
+  gateResult: GateResult
+  durationMs: number
+  sampleRate: number
+  // 이 필드가 생기기 전에 저장된 take는 16kHz 16-bit 2초 WAV(DEFAULT_OUTPUT_SPEC)다.
+  outputSpec?: OutputSpec
+  alignment: SpeechAlignment
+  preRollMs: number
+  sourceMimeType: string
+  recordedAt: number
+  storedAt: number
+  device: DeviceInfo
+  // 중복 take 검사용. 이 필드가 생기기 전에 저장된 take는 null.
+  fingerprint: AcousticFingerprint | null
+  // 창을 직접 옮겨 다시 저장한 take면 원래 take의 id. 같은 발화가 두 번 세어지지 않게
+  // 분석과 내보내기는 대체된 원래 take를 뺀다. 이 필드가 생기기 전에 저장된 take는 없다.
+  supersedesTakeId?: string | null
+}
+
+export type StoredSession = {
+  id: string
+  keywordIds: string[]
+  plan: string[]
+  // plan과 같은 길이. 필러 슬롯마다 뽑은 문장. 이 필드가 생기기 전에 저장된 세션은 이어갈 때 새로 뽑는다.
+  fillerPrompts?: (FillerPrompt | null)[]
+  cursor: number
+  createdAt: number
+  updatedAt: number
+}
+
+export const UploadStatus = {
+  Pending: 'pending',
+  Uploading: 'uploading',
+  Uploaded: 'uploaded',
+  Failed: 'failed',
+} as const
+
+export type UploadStatus = (typeof UploadStatus)[keyof typeof UploadStatus]
+
+export type UploadEntry = {
+  takeId: string
+  keywordText: string | null
+  status: UploadStatus
+  attempts: number
+  nextAttemptAt: number
+  lastError: string | null
+  createdAt: number
+  updatedAt: number
+}
+
+export type TakeStoreSummary = {
+  takeCount: number
+  totalBytes: number
+  quotaBytes: number | null
+}
+
+const getIndexedDb = (): IDBFactory => {
+  if (typeof indexedDB === 'undefined') {
+    throw new DOMException('IndexedDB is not supported', 'NotSupportedError')
+  }
+  return indexedDB
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) {
+    return dbPromise
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = getIndexedDb().open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(TAKE_STORE)) {
+        const takes = db.createObjectStore(TAKE_STORE, { keyPath: 'id' })
+        takes.createIndex('sessionId', 'sessionId')
+        takes.createIndex('recordedAt', 'recordedAt')
+      }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        const sessions = db.createObjectStore(SESSION_STORE, { keyPath: 'id' })
+        sessions.createIndex('updatedAt', 'updatedAt')
+      }
+      if (!db.objectStoreNames.contains(UPLOAD_STORE)) {
+        const uploads = db.createObjectStore(UPLOAD_STORE, { keyPath: 'takeId' })
+        uploads.createIndex('createdAt', 'createdAt')
+      }
+      if (!db.objectStoreNames.contains(REVIEW_STORE)) {
+        const reviews = db.createObjectStore(REVIEW_STORE, { keyPath: 'id' })
+        reviews.createIndex('takeId', 'takeId')
+        reviews.createIndex('reviewedAt', 'reviewedAt')
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => reject(new DOMException('IndexedDB open blocked', 'InvalidStateError'))
+  }).catch((error: unknown) => {
+    // 실패한 open을 캐시하지 않고 다음 호출에서 다시 시도한다.
+    dbPromise = null
+    throw error
+  })
+
+  return dbPromise
+}
+
+// 다른 take가 supersedesTakeId로 가리키는 take를 뺀다. 창을 여러 번 옮겼으면 마지막 것만 남는다.
+export const excludeSupersededTakes = (takes: StoredTake[]): StoredTake[] => {
+  const superseded = new Set(takes.map((take) => take.supersedesTakeId).filter(Boolean))
+  return takes.filter((take) => !superseded.has(take.id))
+}
+
+export const createTakeId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+export const saveTake = async (take: StoredTake): Promise<void> => {
+  const db = await openDb()
+  const transaction = db.transaction(TAKE_STORE, 'readwrite')
+  transaction.objectStore(TAKE_STORE).put(take)
+  await transactionDone(transaction)
+}
+
+export const getTake = async (id: string): Promise<StoredTake | null> => {
+  const db = await openDb()
+  const transaction = db.transaction(TAKE_STORE, 'readonly')
+  const take = await requestToPromise<StoredTake | undefined>(
+    transaction.objectStore(TAKE_STORE).get(id),
+  )
+  return take ?? null
+}
+
+export const listTakes = async (sessionId?: string): Promise<StoredTake[]> => {
+  const db = await openDb()
+  const transaction = db.transaction(TAKE_STORE, 'readonly')
+  const store = transaction.objectStore(TAKE_STORE)
+  const takes = await requestToPromise<StoredTake[]>(
+    sessionId ? store.index('sessionId').getAll(sessionId) : store.index('recordedAt').getAll(),
+  )
+  return takes.sort((a, b) => a.recordedAt - b.recordedAt)
+}
+
+export const deleteTake = async (id: string): Promise<void> => {
+  const db = await openDb()
+  const transaction = db.transaction(TAKE_STORE, 'readwrite')
+  transaction.objectStore(TAKE_STORE).delete(id)
+  await transactionDone(transaction)
+}
+
+export const getTakeStoreSummary = async (): Promise<TakeStoreSummary> => {
+  const db = await openDb()
+  const transaction = db.transaction(TAKE_STORE, 'readonly')
+  const store = transaction.objectStore(TAKE_STORE)
+
+  // Blob을 통째로 읽지 않도록 커서로 sizeBytes만 합산한다.
+  const summary = await new Promise<Omit<TakeStoreSummary, 'quotaBytes'>>((resolve, reject) => {
+    let takeCount = 0
+    let totalBytes = 0
+    const request = store.openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve({ takeCount, totalBytes })
+        return
+      }
+      takeCount += 1
+      totalBytes += (cursor.value as StoredTake).sizeBytes
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+
+  let quotaBytes: number | null = null
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate().catch(() => null)
+    quotaBytes = estimate?.quota ?? null
+  }
+
+  return { ...summary, quotaBytes }
+}
+
+/**
+ * 한 화자의 저장된 take 지문만 모은다. 커서로 돌면서 필요한 필드만 꺼낸다.
+ */
+export const listTakeFingerprints = async (speakerId: string): Promise<FingerprintCandidate[]> => {
+  const db = await openDb()
+  const transaction = db.transaction(TAKE_STORE, 'readonly')
+  const store = transaction.objectStore(TAKE_STORE)
+
+  return new Promise<FingerprintCandidate[]>((resolve, reject) => {
+    const candidates: FingerprintCandidate[] = []
+    const request = store.openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(candidates)
+        return
+      }
+      const take = cursor.value as StoredTake
+      if (take.speakerId === speakerId && take.fingerprint) {
+        candidates.push({ takeId: take.id, fingerprint: take.fingerprint })
+      }
+      cursor.continue()
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export const saveSession = async (session: StoredSession): Promise<void> => {
+  const db = await openDb()
+  const transaction = db.transaction(SESSION_STORE, 'readwrite')
+  transaction.objectStore(SESSION_STORE).put(session)
+  await transactionDone(transaction)
+}
+
+/**
+ * 가장 최근에 갱신된 미완료 세션을 돌려준다. 새로고침/탭 종료 후 이어하기용.
+ */
+export const loadResumableSession = async (): Promise<StoredSession | null> => {
+  const db = await openDb()
+  const transaction = db.transaction(SESSION_STORE, 'readonly')
+  const sessions = await requestToPromise<StoredSession[]>(
+    transaction.objectStore(SESSION_STORE).index('updatedAt').getAll(),
+  )
+  const latest = sessions.at(-1)
+  if (!latest || latest.cursor >= latest.plan.length) {
+    return null
+  }
+  return latest
+}
+
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+    return false
+  }
+  return navigator.storage.persist().catch(() => false)
+}
+
+export const saveUploadEntry = async (entry: UploadEntry): Promise<void> => {
+  const db = await openDb()
+  const transaction = db.transaction(UPLOAD_STORE, 'readwrite')
+  transaction.objectStore(UPLOAD_STORE).put(entry)
+  await transactionDone(transaction)
+}
+
+export const listUploadEntries = async (): Promise<UploadEntry[]> => {
+  const db = await openDb()
+  const transaction = db.transaction(UPLOAD_STORE, 'readonly')
+  return requestToPromise<UploadEntry[]>(
+    transaction.objectStore(UPLOAD_STORE).index('createdAt').getAll(),
+  )
+}
+
+export const saveReview = async (review: TakeReview): Promise<void> => {
+  const db = await openDb()
+  const transaction = db.transaction(REVIEW_STORE, 'readwrite')
+  transaction.objectStore(REVIEW_STORE).put(review)
+  await transactionDone(transaction)
+}
+
+// 다른 검수자의 결과를 가져올 때 한 번에 저장한다. 하나라도 실패하면 아무것도 남지 않는다.
+export const saveReviews = async (reviews: TakeReview[]): Promise<void> => {
+  const db = await openDb()
+  const transaction = db.transaction(REVIEW_STORE, 'readwrite')
+  const store = transaction.objectStore(REVIEW_STORE)
+  for (const review of reviews) {
+    store.put(review)
+  }
+  await transactionDone(transaction)
+}
+
+export const listReviews = async (): Promise<TakeReview[]> => {
+  const db = await openDb()
+  const transaction = db.transaction(REVIEW_STORE, 'readonly')
+  return requestToPromise<TakeReview[]>(
+    transaction.objectStore(REVIEW_STORE).index('reviewedAt').getAll(),
+  )
+}
@@ -0,0 +1,129 @@
+import { MissionKind, toTrainingLabel } from './mission'
+import { DEFAULT_OUTPUT_SPEC, type OutputSpec } from './outputSpec'
+import type { StoredTake } from './takeStore'
+
+export const DEFAULT_UPLOAD_ENDPOINT: string =
+  import.meta.env.VITE_UPLOAD_ENDPOINT ?? `${import.meta.env.BASE_URL}api/takes`
+
+export const UPLOAD_MAX_ATTEMPTS = 8
+const BACKOFF_BASE_MS = 2000
+const BACKOFF_MAX_MS = 5 * 60 * 1000
+const BACKOFF_JITTER_RATIO = 0.2
+const UPLOAD_TIMEOUT_MS = 30000
+
+export const TAKE_METADATA_SCHEMA_VERSION = 2
+
+export type TakeMetadata = {
+  schemaVersion: number
+  takeId: string
+  sessionId: string
+  speakerId: string
+  keywordId: string | null
+  keywordText: string | null
+  missionKind: MissionKind
+  // 학습 라벨: 키워드 id, 필러는 _unknown_, 배경 소리는 _silence_.
+  label: string
+  gate: StoredTake['gateResult']
+  durationMs: number
+  sampleRate: number
+  outputSpec: OutputSpec
+  alignment: StoredTake['alignment']
+  preRollMs: number
+  sourceMimeType: string
+  recordedAt: string
+  device: StoredTake['device']
+  // 창을 옮겨 다시 저장한 take면 대체한 원래 take. 원래 take는 보통 업로드되지 않은 AMBIG/REJECT다.
+  supersedesTakeId: string | null
+}
+
+export type UploadOutcome =
+  | { ok: true }
+  | { ok: false; retryable: boolean; errorName: string }
+
+export const buildTakeMetadata = (take: StoredTake): TakeMetadata => {
+  const missionKind = take.missionKind ?? MissionKind.Keyword
+  return {
+    schemaVersion: TAKE_METADATA_SCHEMA_VERSION,
+    takeId: take.id,
+    sessionId: take.sessionId,
+    speakerId: take.speakerId,
+    keywordId: take.keywordId,
+    keywordText: take.keywordText,
+    missionKind,
+    label: toTrainingLabel(missionKind, take.keywordId),
+    gate: take.gateResult,
+    durationMs: take.durationMs,
+    sampleRate: take.sampleRate,
+    outputSpec: take.outputSpec ?? DEFAULT_OUTPUT_SPEC,
+    alignment: take.alignment,
+    preRollMs: take.preRollMs,
+    sourceMimeType: take.sourceMimeType,
+    recordedAt: new Date(take.recordedAt).toISOString(),
+    device: take.device,
+    supersedesTakeId: take.supersedesTakeId ?? null,
+  }
+}
+
+/**
+ * attempts번 실패한 뒤 다음 시도까지 기다릴 시간. 2s, 4s, 8s ... 최대 5분, ±20% 지터.
+ */
+export const computeBackoffMs = (attempts: number): number => {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1))
+  const jitter = exponential * BACKOFF_JITTER_RATIO * (Math.random() * 2 - 1)
+  return Math.round(exponential + jitter)
+}
+
+// 408/429와 5xx는 일시적인 실패로 보고 재시도한다. 나머지 4xx는 요청 자체가 잘못된 것.
+const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500
+
+const putWithTimeout = async (url: string, body: Blob, contentType: string) => {
+  const controller = new AbortController()
+  const timeoutId = window.setTimeout(() => controller.abort(), UPLOAD_TIMEOUT_MS)
+  try {
+    return await fetch(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      body,
+      signal: controller.signal,
+    })
+  } finally {
+    window.clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * 업로드 계약:
+ *   PUT {endpoint}/{takeId}/audio     (take의 출력 형식: audio/wav 또는 audio/flac)
+ *   PUT {endpoint}/{takeId}/metadata  (application/json)
+ * take id는 클라이언트가 만든 값이라 같은 take를 몇 번 다시 보내도 서버에는 하나만 남는다.
+ * metadata를 마지막에 보내서 서버가 이를 "업로드 완료" 표시로 쓸 수 있게 한다.
+ */
+export const uploadTake = async (take: StoredTake, endpoint: string): Promise<UploadOutcome> => {
+  const baseUrl = `${endpoint.replace(/\/+$/, '')}/${encodeURIComponent(take.id)}`
+  const metadataBlob = new Blob([JSON.stringify(buildTakeMetadata(take))], {
+    type: 'application/json',
+  })
+
+  const parts: [string, Blob, string][] = [
+    [`${baseUrl}/audio`, take.wav, take.wav.type || 'audio/wav'],
+    [`${baseUrl}/metadata`, metadataBlob, 'application/json'],
+  ]
+
+  for (const [url, body, contentType] of parts) {
+    try {
+      const response = await putWithTimeout(url, body, contentType)
+      if (!response.ok) {
+        return {
+          ok: false,
+          retryable: isRetryableStatus(response.status),
+          errorName: `HttpError:${response.status}`,
+        }
+      }
+    } catch (error) {
+      const name = error instanceof DOMException ? error.name : 'NetworkError'
+      return { ok: false, retryable: true, errorName: name }
+    }
+  }
+
+  return { ok: true }
+}
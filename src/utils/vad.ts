@@ -0,0 +1,160 @@
+import { computePowerSpectrum, createHannWindow, nextPowerOfTwo } from './fft'
+
+const VOICE_BAND_LOW_HZ = 300
+const VOICE_BAND_HIGH_HZ = 3400
+// 블루투스 HFP(8kHz 샘플링)는 이 위로 에너지가 거의 없다.
+export const HIGH_BAND_LOW_HZ = 4000
+// log(0)을 피하려는 아주 작은 값. 16-bit 양자화 잡음보다 한참 작다.
+const POWER_EPSILON = 1e-12
+
+export type FrameFeatures = {
+  rms: number
+  // 샘플당 부호가 바뀐 비율(0~1). 유성음은 낮고 마찰음/백색 잡음은 높다.
+  zeroCrossingRate: number
+  // 기하평균/산술평균(0~1). 하모닉이 뚜렷하면 0에 가깝고 잡음은 0.5 이상.
+  spectralFlatness: number
+  // 전체 에너지 중 300~3400Hz 대역이 차지하는 비율.
+  voiceBandRatio: number
+  // 전체 에너지 중 4kHz 이상이 차지하는 비율.
+  highBandRatio: number
+}
+
+export type VadOptions = {
+  frameSize: number
+  energyThreshold: number
+  maxSpectralFlatness: number
+  minVoiceBandRatio: number
+  maxZeroCrossingRate: number
+  // 이보다 짧은 발화 덩어리(문 닫힘, 딸깍 소리)는 버린다.
+  minRunFrames: number
+  // 이 이하의 짧은 틈(파열음/마찰음 사이)은 발화로 메운다.
+  hangoverFrames: number
+}
+
+export type VadResult = {
+  frames: FrameFeatures[]
+  // 프레임마다 1(발화) / 0(비발화).
+  mask: number[]
+}
+
+export const computeFrameFeatures = (
+  frame: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  window: Float32Array,
+): FrameFeatures => {
+  let squares = 0
+  let crossings = 0
+  for (let index = 0; index < frame.length; index += 1) {
+    squares += frame[index] * frame[index]
+    if (index > 0 && frame[index] >= 0 !== frame[index - 1] >= 0) {
+      crossings += 1
+    }
+  }
+
+  const power = computePowerSpectrum(frame, fftSize, window)
+  const binHz = sampleRate / fftSize
+  const lowBin = Math.ceil(VOICE_BAND_LOW_HZ / binHz)
+  const highBin = Math.min(power.length - 1, Math.floor(VOICE_BAND_HIGH_HZ / binHz))
+  const highBandBin = Math.ceil(HIGH_BAND_LOW_HZ / binHz)
+  let totalPower = 0
+  let bandPower = 0
+  let highBandPower = 0
+  let logSum = 0
+  // DC는 평탄도/대역 비율에서 뺀다.
+  for (let bin = 1; bin < power.length; bin += 1) {
+    totalPower += power[bin]
+    logSum += Math.log(power[bin] + POWER_EPSILON)
+    if (bin >= lowBin && bin <= highBin) {
+      bandPower += power[bin]
+    }
+    if (bin >= highBandBin) {
+      highBandPower += power[bin]
+    }
+  }
+  const binCount = power.length - 1
+  const arithmeticMean = totalPower / binCount + POWER_EPSILON
+  const geometricMean = Math.exp(logSum / binCount)
+
+  return {
+    rms: Math.sqrt(squares / Math.max(1, frame.length)),
+    zeroCrossingRate: frame.length > 1 ? crossings / (frame.length - 1) : 0,
+    spectralFlatness: Math.min(1, geometricMean / arithmeticMean),
+    voiceBandRatio: totalPower > 0 ? bandPower / totalPower : 0,
+    highBandRatio: totalPower > 0 ? highBandPower / totalPower : 0,
+  }
+}
+
+// 1로 된 구간 중 minRun보다 짧은 것은 지우고, 그 뒤 hangover 이하의 0 틈은 메운다.
+const smoothMask = (mask: number[], minRunFrames: number, hangoverFrames: number): number[] => {
+  const cleaned = [...mask]
+  for (let start = 0; start < cleaned.length; ) {
+    if (cleaned[start] === 0) {
+      start += 1
+      continue
+    }
+    let end = start
+    while (end < cleaned.length && cleaned[end] === 1) {
+      end += 1
+    }
+    if (end - start < minRunFrames) {
+      cleaned.fill(0, start, end)
+    }
+    start = end
+  }
+
+  const firstSpeech = cleaned.indexOf(1)
+  const lastSpeech = cleaned.lastIndexOf(1)
+  for (let start = firstSpeech; start !== -1 && start < lastSpeech; ) {
+    if (cleaned[start] === 1) {
+      start += 1
+      continue
+    }
+    let end = start
+    while (end < lastSpeech && cleaned[end] === 0) {
+      end += 1
+    }
+    if (end - start <= hangoverFrames) {
+      cleaned.fill(1, start, end)
+    }
+    start = end
+  }
+  return cleaned
+}
+
+/**
+ * 프레임 에너지 + 스펙트럼 단서로 발화 마스크를 만든다.
+ * 에너지가 기준을 넘고, 에너지 대부분이 300~3400Hz에 있고, 평탄도나 영교차율이 잡음보다 낮아야
+ * 발화 프레임으로 본다. 꾸준한 험(대역 밖), 문 닫힘/기침(넓은 대역, 짧음)을 거르기 위함이다.
+ */
+export const detectSpeechFrames = (
+  pcm: Float32Array,
+  sampleRate: number,
+  options: VadOptions,
+): VadResult => {
+  const { frameSize } = options
+  const frameCount = Math.floor(pcm.length / frameSize)
+  const fftSize = nextPowerOfTwo(frameSize)
+  const window = createHannWindow(frameSize)
+  const frames: FrameFeatures[] = []
+  const rawMask: number[] = []
+
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const start = frame * frameSize
+    const features = computeFrameFeatures(
+      pcm.subarray(start, start + frameSize),
+      sampleRate,
+      fftSize,
+      window,
+    )
+    frames.push(features)
+
+    const isVoiceBand = features.voiceBandRatio >= options.minVoiceBandRatio
+    const isTonal =
+      features.spectralFlatness <= options.maxSpectralFlatness ||
+      features.zeroCrossingRate <= options.maxZeroCrossingRate
+    rawMask.push(features.rms >= options.energyThreshold && isVoiceBand && isTonal ? 1 : 0)
+  }
+
+  return { frames, mask: smoothMask(rawMask, options.minRunFrames, options.hangoverFrames) }
+}
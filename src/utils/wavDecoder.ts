@@ -0,0 +1,160 @@
+// audioUtils의 WAV 인코더와 짝이 되는 디코더. 브라우저 API 없이 바이트만 읽어서 Node에서도 돈다.
+// 우리가 쓰는 16/24-bit PCM, 32-bit float 외에 흔한 8/32-bit PCM, 64-bit float,
+// WAVE_FORMAT_EXTENSIBLE도 읽는다. 채널이 여럿이면 평균해서 mono로 돌려준다.
+
+const WAV_FORMAT_PCM = 1
+const WAV_FORMAT_IEEE_FLOAT = 3
+const WAV_FORMAT_EXTENSIBLE = 0xfffe
+
+export type DecodedWav = {
+  pcm: Float32Array
+  sampleRate: number
+  // 원본 파일 정보. mono로 섞기 전 기준.
+  channelCount: number
+  bitsPerSample: number
+  isFloat: boolean
+  durationMs: number
+}
+
+type WavFormat = {
+  formatTag: number
+  channelCount: number
+  sampleRate: number
+  bitsPerSample: number
+}
+
+const wavFormatError = (message: string) => new DOMException(message, 'WavFormatError')
+
+const readFourCc = (view: DataView, offset: number) =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+
+const createSampleReader = (
+  view: DataView,
+  bitsPerSample: number,
+  isFloat: boolean,
+): ((offset: number) => number) => {
+  if (isFloat) {
+    if (bitsPerSample === 32) {
+      return (offset) => view.getFloat32(offset, true)
+    }
+    if (bitsPerSample === 64) {
+      return (offset) => view.getFloat64(offset, true)
+    }
+  } else {
+    // 인코더(quantizePcm)와 같은 스케일: 음수는 2^(n-1)로 나눠 -1까지 그대로 돌아온다.
+    switch (bitsPerSample) {
+      case 8:
+        // 8-bit WAV만 unsigned.
+        return (offset) => (view.getUint8(offset) - 128) / (view.getUint8(offset) < 128 ? 128 : 127)
+      case 16:
+        return (offset) => {
+          const value = view.getInt16(offset, true)
+          return value / (value < 0 ? 0x8000 : 0x7fff)
+        }
+      case 24:
+        return (offset) => {
+          const unsigned =
+            view.getUint8(offset) |
+            (view.getUint8(offset + 1) << 8) |
+            (view.getUint8(offset + 2) << 16)
+          const value = unsigned & 0x800000 ? unsigned - 0x1000000 : unsigned
+          return value / (value < 0 ? 0x800000 : 0x7fffff)
+        }
+      case 32:
+        return (offset) => {
+          const value = view.getInt32(offset, true)
+          return value / (value < 0 ? 0x80000000 : 0x7fffffff)
+        }
+    }
+  }
+  throw wavFormatError(`unsupported sample format: ${bitsPerSample}-bit ${isFloat ? 'float' : 'PCM'}`)
+}
+
+/**
+ * WAV 파일 바이트를 mono Float32 PCM으로 읽는다. 형식이 틀리면 WavFormatError를 던진다.
+ */
+export const decodeWav = (bytes: Uint8Array): DecodedWav => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (view.byteLength < 12 || readFourCc(view, 0) !== 'RIFF' || readFourCc(view, 8) !== 'WAVE') {
+    throw wavFormatError('not a RIFF/WAVE file')
+  }
+
+  let format: WavFormat | null = null
+  let dataOffset = -1
+  let dataSize = 0
+
+  let offset = 12
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readFourCc(view, offset)
+    const chunkSize = view.getUint32(offset + 4, true)
+    const bodyOffset = offset + 8
+
+    if (chunkId === 'fmt ') {
+      if (chunkSize < 16 || bodyOffset + chunkSize > view.byteLength) {
+        throw wavFormatError('fmt chunk is truncated')
+      }
+      let formatTag = view.getUint16(bodyOffset, true)
+      // EXTENSIBLE이면 SubFormat GUID 앞 2바이트가 실제 형식 코드다.
+      if (formatTag === WAV_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+        formatTag = view.getUint16(bodyOffset + 24, true)
+      }
+      format = {
+        formatTag,
+        channelCount: view.getUint16(bodyOffset + 2, true),
+        sampleRate: view.getUint32(bodyOffset + 4, true),
+        bitsPerSample: view.getUint16(bodyOffset + 14, true),
+      }
+    } else if (chunkId === 'data') {
+      dataOffset = bodyOffset
+      // 녹음 중 끊긴 파일은 헤더 크기가 실제보다 클 수 있어서 남은 바이트까지만 읽는다.
+      dataSize = Math.min(chunkSize, view.byteLength - bodyOffset)
+      break
+    }
+
+    // 청크는 2바이트 단위로 정렬된다.
+    offset = bodyOffset + chunkSize + (chunkSize % 2)
+  }
+
+  if (!format) {
+    throw wavFormatError('fmt chunk is missing')
+  }
+  if (dataOffset < 0) {
+    throw wavFormatError('data chunk is missing')
+  }
+  if (format.formatTag !== WAV_FORMAT_PCM && format.formatTag !== WAV_FORMAT_IEEE_FLOAT) {
+    throw wavFormatError(`unsupported format tag: ${format.formatTag}`)
+  }
+  if (format.channelCount < 1 || format.sampleRate < 1) {
+    throw wavFormatError('invalid channel count or sample rate')
+  }
+
+  const isFloat = format.formatTag === WAV_FORMAT_IEEE_FLOAT
+  const readSample = createSampleReader(view, format.bitsPerSample, isFloat)
+  const bytesPerSample = format.bitsPerSample / 8
+  const blockAlign = bytesPerSample * format.channelCount
+  const frameCount = Math.floor(dataSize / blockAlign)
+  const pcm = new Float32Array(frameCount)
+
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const frameOffset = dataOffset + frame * blockAlign
+    let sum = 0
+    for (let channel = 0; channel < format.channelCount; channel += 1) {
+      sum += readSample(frameOffset + channel * bytesPerSample)
+    }
+    pcm[frame] = sum / format.channelCount
+  }
+
+  return {
+    pcm,
+    sampleRate: format.sampleRate,
+    channelCount: format.channelCount,
+    bitsPerSample: format.bitsPerSample,
+    isFloat,
+    durationMs: Math.round((frameCount / format.sampleRate) * 1000),
+  }
+}
@@ -0,0 +1,175 @@
+const ZIP_MIME_TYPE = 'application/zip'
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50
+const ZIP_VERSION = 20
+const UTF8_FILENAME_FLAG = 0x0800
+const METHOD_STORE = 0
+
+export type ZipEntryInput = {
+  path: string
+  data: Blob | Uint8Array<ArrayBuffer> | string
+  modifiedAt?: Date
+}
+
+type PreparedEntry = {
+  nameBytes: Uint8Array<ArrayBuffer>
+  data: Uint8Array<ArrayBuffer>
+  crc: number
+  dosTime: number
+  dosDate: number
+  offset: number
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let index = 0; index < 256; index += 1) {
+    let value = index
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+    }
+    table[index] = value >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (let index = 0; index < data.length; index += 1) {
+    crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ZIP은 로컬 시간 기준 MS-DOS 날짜/시간(2초 단위)을 쓴다.
+const toDosDateTime = (date: Date) => ({
+  dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  dosDate:
+    ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+})
+
+const toBytes = async (data: ZipEntryInput['data']): Promise<Uint8Array<ArrayBuffer>> => {
+  if (typeof data === 'string') {
+    return new TextEncoder().encode(data)
+  }
+  if (data instanceof Uint8Array) {
+    return data
+  }
+  return new Uint8Array(await data.arrayBuffer())
+}
+
+const buildLocalHeader = (entry: PreparedEntry): Uint8Array<ArrayBuffer> => {
+  const header = new Uint8Array(30 + entry.nameBytes.length)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, LOCAL_FILE_HEADER_SIGNATURE, true)
+  view.setUint16(4, ZIP_VERSION, true)
+  view.setUint16(6, UTF8_FILENAME_FLAG, true)
+  view.setUint16(8, METHOD_STORE, true)
+  view.setUint16(10, entry.dosTime, true)
+  view.setUint16(12, entry.dosDate, true)
+  view.setUint32(14, entry.crc, true)
+  view.setUint32(18, entry.data.length, true)
+  view.setUint32(22, entry.data.length, true)
+  view.setUint16(26, entry.nameBytes.length, true)
+  view.setUint16(28, 0, true)
+  header.set(entry.nameBytes, 30)
+  return header
+}
+
+const buildCentralDirectoryHeader = (entry: PreparedEntry): Uint8Array<ArrayBuffer> => {
+  const header = new Uint8Array(46 + entry.nameBytes.length)
+  const view = new DataView(header.buffer)
+  view.setUint32(0, CENTRAL_DIRECTORY_SIGNATURE, true)
+  view.setUint16(4, ZIP_VERSION, true)
+  view.setUint16(6, ZIP_VERSION, true)
+  view.setUint16(8, UTF8_FILENAME_FLAG, true)
+  view.setUint16(10, METHOD_STORE, true)
+  view.setUint16(12, entry.dosTime, true)
+  view.setUint16(14, entry.dosDate, true)
+  view.setUint32(16, entry.crc, true)
+  view.setUint32(20, entry.data.length, true)
+  view.setUint32(24, entry.data.length, true)
+  view.setUint16(28, entry.nameBytes.length, true)
+  view.setUint16(30, 0, true)
+  view.setUint16(32, 0, true)
+  view.setUint16(34, 0, true)
+  view.setUint16(36, 0, true)
+  view.setUint32(38, 0, true)
+  view.setUint32(42, entry.offset, true)
+  header.set(entry.nameBytes, 46)
+  return header
+}
+
+const buildEndOfCentralDirectory = (
+  entryCount: number,
+  directorySize: number,
+  directoryOffset: number,
+): Uint8Array<ArrayBuffer> => {
+  const record = new Uint8Array(22)
+  const view = new DataView(record.buffer)
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  view.setUint16(4, 0, true)
+  view.setUint16(6, 0, true)
+  view.setUint16(8, entryCount, true)
+  view.setUint16(10, entryCount, true)
+  view.setUint32(12, directorySize, true)
+  view.setUint32(16, directoryOffset, true)
+  view.setUint16(20, 0, true)
+  return record
+}
+
+/**
+ * 압축 없이(STORE) ZIP을 만든다. WAV는 어차피 잘 안 줄어들고, 어떤 unzip 도구로도 열린다.
+ * ZIP64는 지원하지 않으므로 전체 크기 4GB, 항목 65535개 이하만 다룬다.
+ */
+export const createZip = async (inputs: ZipEntryInput[]): Promise<Blob> => {
+  if (inputs.length > 0xffff) {
+    throw new DOMException('Too many ZIP entries', 'NotSupportedError')
+  }
+
+  const encoder = new TextEncoder()
+  const seenPaths = new Set<string>()
+  const entries: PreparedEntry[] = []
+  let offset = 0
+
+  for (const input of inputs) {
+    const path = input.path.replace(/^\/+/, '')
+    if (!path || seenPaths.has(path)) {
+      throw new DOMException(`Invalid or duplicate ZIP path: ${input.path}`, 'SyntaxError')
+    }
+    seenPaths.add(path)
+
+    const data = await toBytes(input.data)
+    const entry: PreparedEntry = {
+      nameBytes: encoder.encode(path),
+      data,
+      crc: crc32(data),
+      ...toDosDateTime(input.modifiedAt ?? new Date()),
+      offset,
+    }
+    entries.push(entry)
+    offset += 30 + entry.nameBytes.length + data.length
+  }
+
+  if (offset > 0xffffffff) {
+    throw new DOMException('ZIP archive exceeds 4GB', 'NotSupportedError')
+  }
+
+  const parts: BlobPart[] = []
+  for (const entry of entries) {
+    parts.push(buildLocalHeader(entry), entry.data)
+  }
+
+  let directorySize = 0
+  for (const entry of entries) {
+    const header = buildCentralDirectoryHeader(entry)
+    directorySize += header.length
+    parts.push(header)
+  }
+  parts.push(buildEndOfCentralDirectory(entries.length, directorySize, offset))
+
+  return new Blob(parts, { type: ZIP_MIME_TYPE })
+}
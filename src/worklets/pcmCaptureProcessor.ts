@@ -0,0 +1,114 @@
+// AudioWorkletGlobalScope에서 돌아가는 파일이라 DOM 타입 대신 필요한 전역만 선언한다.
+declare const sampleRate: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+  constructor(options?: AudioWorkletNodeOptions)
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void
+
+// src/utils/pcmCapture.ts 의 이름과 같아야 한다.
+const PCM_CAPTURE_PROCESSOR_NAME = 'kws-pcm-capture'
+
+// render quantum(128 frame)마다 메시지를 보내지 않도록 모아서 보낸다.
+const CHUNK_FRAMES = 2048
+
+type CaptureCommand =
+  | { type: 'start'; includePreRoll: boolean }
+  | { type: 'stop' }
+  | { type: 'snapshot' }
+
+type ProcessorOptions = {
+  preRollMs?: number
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private capturing = false
+  private buffer = new Float32Array(CHUNK_FRAMES)
+  private filled = 0
+  // 녹음 중이 아닐 때도 최근 preRollMs 만큼을 계속 덮어쓰며 들고 있는다.
+  private ring: Float32Array
+  private ringIndex = 0
+  private ringFilled = 0
+  private preRollFrames = 0
+
+  constructor(options?: AudioWorkletNodeOptions) {
+    super(options)
+    const { preRollMs = 0 } = (options?.processorOptions ?? {}) as ProcessorOptions
+    this.ring = new Float32Array(Math.max(0, Math.round((preRollMs * sampleRate) / 1000)))
+
+    this.port.onmessage = (event: MessageEvent<CaptureCommand>) => {
+      const command = event.data
+      if (command.type === 'start') {
+        this.filled = 0
+        this.preRollFrames = 0
+        if (command.includePreRoll) {
+          const preRoll = this.readRing()
+          this.preRollFrames = preRoll.length
+          this.port.postMessage({ type: 'chunk', samples: preRoll }, [preRoll.buffer])
+        }
+        this.capturing = true
+      } else if (command.type === 'stop') {
+        this.flush()
+        this.capturing = false
+        this.port.postMessage({ type: 'stopped', preRollFrames: this.preRollFrames })
+      } else if (command.type === 'snapshot') {
+        const preRoll = this.readRing()
+        this.port.postMessage({ type: 'snapshot', samples: preRoll }, [preRoll.buffer])
+      }
+    }
+  }
+
+  private readRing(): Float32Array {
+    const result = new Float32Array(this.ringFilled)
+    const start = this.ringFilled < this.ring.length ? 0 : this.ringIndex
+    for (let index = 0; index < this.ringFilled; index += 1) {
+      result[index] = this.ring[(start + index) % this.ring.length]
+    }
+    return result
+  }
+
+  private flush() {
+    if (this.filled === 0) {
+      return
+    }
+    const chunk = this.buffer.slice(0, this.filled)
+    this.port.postMessage({ type: 'chunk', samples: chunk }, [chunk.buffer])
+    this.filled = 0
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channels = inputs[0]
+    if (!channels || channels.length === 0) {
+      return true
+    }
+
+    const frameCount = channels[0].length
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      let sum = 0
+      for (const channel of channels) {
+        sum += channel[frame]
+      }
+      const sample = sum / channels.length
+
+      if (this.ring.length > 0) {
+        this.ring[this.ringIndex] = sample
+        this.ringIndex = (this.ringIndex + 1) % this.ring.length
+        this.ringFilled = Math.min(this.ringFilled + 1, this.ring.length)
+      }
+
+      if (this.capturing) {
+        this.buffer[this.filled] = sample
+        this.filled += 1
+        if (this.filled === CHUNK_FRAMES) {
+          this.flush()
+        }
+      }
+    }
+    return true
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR_NAME, PcmCaptureProcessor)